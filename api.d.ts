@@ -0,0 +1,83 @@
+// Public API of the URL Name Extractor plugin, for other plugins and scripts
+// (Templater, QuickAdd, ...). Copy this file into your project and get the API
+// from the plugin instance:
+//
+//     const api = (app as any).plugins.getPlugin('url-name-extractor')?.api as UrlNameExtractorApi | undefined;
+//     const { title } = await api.getTitle('https://example.com');
+//
+// Lookups use the plugin's settings (extractors, site rules, fallbacks,
+// request profiles, title and URL cleanup) and its title cache. The methods
+// never reject for a failed URL; the error is part of the result.
+
+import type { TFile } from 'obsidian';
+
+// Where a title came from
+export type UrlTitleSource =
+    | 'site-pattern' | 'direct' | 'og' | 'json-ld' | 'twitter' | 'citation' | 'dublin-core' | 'h1'
+    | 'doi' | 'arxiv' | 'pubmed' | 'pdf-metadata' | 'file-name'
+    | 'microlink' | 'archive' | 'custom';
+
+// Why a lookup failed
+export type UrlFailureReason =
+    | 'invalid-url' | 'bot-protection' | 'http-error' | 'network' | 'timeout' | 'rate-limited' | 'no-title' | 'other';
+
+export interface UrlTitleResult {
+    // The URL as given
+    url: string;
+    status: 'success' | 'failed';
+    title?: string;
+    source?: UrlTitleSource;
+    // Human-readable source, e.g. "OG tag" or "Archive.org"
+    sourceLabel?: string;
+    // The URL to link to after URL cleanup (tracking parameters, short links,
+    // canonical URL); the same as `url` when nothing changed
+    linkUrl?: string;
+    // True if the title came from the title cache
+    cached?: boolean;
+    reason?: UrlFailureReason;
+    error?: string;
+}
+
+export interface UrlMetadata {
+    siteName?: string;
+    author?: string;
+    published?: string;
+    description?: string;
+    doi?: string;
+    image?: string;
+    favicon?: string;
+    canonicalUrl?: string;
+}
+
+export interface UrlMetadataResult extends UrlTitleResult {
+    metadata?: UrlMetadata;
+}
+
+export interface ConvertTextResult {
+    // The text with its raw URLs replaced by links in the configured link
+    // template, and any reference definitions appended
+    text: string;
+    urlCount: number;
+    successCount: number;
+    failureCount: number;
+    // One result per converted URL, in document order
+    urls: UrlTitleResult[];
+    // Set when nothing could be converted, e.g. because the URL regex in settings is invalid
+    error?: string;
+}
+
+export interface ConvertFileResult extends Omit<ConvertTextResult, 'text'> {
+    path: string;
+    // "modified" means the note changed while titles were being fetched, so it was left alone
+    status: 'updated' | 'unchanged' | 'modified' | 'error';
+    error?: string;
+}
+
+export interface UrlNameExtractorApi {
+    // Version of this API; bumped when its shape changes
+    readonly version: number;
+    getTitle(url: string): Promise<UrlTitleResult>;
+    getMetadata(url: string): Promise<UrlMetadataResult>;
+    convertText(text: string): Promise<ConvertTextResult>;
+    convertFile(file: TFile): Promise<ConvertFileResult>;
+}
@@ -1,4 +1,5 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, requestUrl } from 'obsidian';
+import type { ConvertFileResult, ConvertTextResult, UrlMetadata, UrlMetadataResult, UrlNameExtractorApi, UrlTitleResult } from './api';
+import { App, ButtonComponent, DataAdapter, Debouncer, DropdownComponent, Editor, FuzzySuggestModal, ItemView, MarkdownFileInfo, MarkdownView, Modal, Notice, ObsidianProtocolData, Platform, Plugin, PluginSettingTab, RequestUrlParam, RequestUrlResponse, Setting, TFile, TFolder, ToggleComponent, Vault, WorkspaceLeaf, debounce, moment, normalizePath, requestUrl } from 'obsidian';
 
 // Custom error classes for special error handling
 class MicrolinkRateLimitError extends Error {
@@ -19,6 +20,34 @@ class AggregatedFetchError extends Error {
     }
 }
 
+// Thrown when a run is cancelled before a request could start
+class RunCancelledError extends Error {
+    constructor() {
+        super('Cancelled');
+        this.name = 'RunCancelledError';
+    }
+}
+
+// A lookup failure whose cause is known, for the run summary
+class TitleFetchError extends Error {
+    reason: UrlFailureReason;
+    constructor(reason: UrlFailureReason, message: string) {
+        super(message);
+        this.name = 'TitleFetchError';
+        this.reason = reason;
+    }
+}
+
+// Thrown by RequestScheduler for non-2xx responses, like requestUrl does
+class HttpStatusError extends Error {
+    status: number;
+    constructor(status: number) {
+        super(`Request failed, status ${status}`);
+        this.name = 'HttpStatusError';
+        this.status = status;
+    }
+}
+
 interface WaybackApiResponse {
     archived_snapshots: {
         closest?: {
@@ -36,71 +65,780 @@ interface MicrolinkApiResponse {
     message?: string;
     data?: {
         title?: string;
+        description?: string | null;
+        publisher?: string | null;
+        author?: string | null;
+        date?: string | null;
+        image?: { url?: string } | null;
+        logo?: { url?: string } | null;
+        url?: string | null;
     };
 }
 
+// Metadata extractors, run in the order set in settings. 'direct' is the <title> tag.
+type ExtractorId = 'site-pattern' | 'direct' | 'og' | 'json-ld' | 'twitter' | 'citation' | 'dublin-core' | 'h1';
+
+// Where a title came from: one of the extractors on the page itself, the citation resolver, or a fallback service
+type TitleSource = ExtractorId | 'doi' | 'arxiv' | 'pubmed' | 'pdf-metadata' | 'file-name' | FallbackProviderType;
+
+// Services asked for the title when a site blocks direct access
+type FallbackProviderType = 'microlink' | 'archive' | 'custom';
+
+const TITLE_SOURCE_LABELS: Record<TitleSource, string> = {
+    'direct': 'Direct',
+    'og': 'OG tag',
+    'site-pattern': 'Site pattern',
+    'json-ld': 'JSON-LD',
+    'twitter': 'Twitter card',
+    'citation': 'Citation meta',
+    'dublin-core': 'Dublin Core',
+    'h1': 'Heading',
+    'doi': 'DOI',
+    'arxiv': 'arXiv',
+    'pubmed': 'PubMed',
+    'pdf-metadata': 'PDF metadata',
+    'file-name': 'File name',
+    'archive': 'Archive.org',
+    'microlink': 'Microlink',
+    'custom': 'Custom endpoint'
+};
+
+// Optional page details collected alongside the title
+interface PageMetadata {
+    title?: string;
+    siteName?: string;
+    author?: string;
+    published?: string;
+    description?: string;
+    doi?: string;
+    // Absolute URLs of the preview image (og:image) and the site icon
+    image?: string;
+    favicon?: string;
+    // The page's preferred URL (<link rel="canonical"> or og:url)
+    canonicalUrl?: string;
+}
+
+interface FetchedPage {
+    // Decoded text; empty for file responses (see FileNamer.handles)
+    body: string;
+    status: number;
+    contentType: string;
+    headers: Record<string, string>;
+    bytes: ArrayBuffer | null;
+}
+
+// The subset of CSL-JSON (citeproc JSON) used for citation-style link text
+interface CslItem {
+    title?: string | string[];
+    author?: Array<{ family?: string, given?: string, literal?: string }>;
+    issued?: { 'date-parts'?: Array<Array<number | string>> };
+    'container-title'?: string | string[];
+    publisher?: string;
+    DOI?: string;
+}
+
+interface TitleResult extends PageMetadata {
+    title: string;
+    source: TitleSource;
+    // URL to write instead of the one in the note, after URL cleanup
+    url?: string;
+    // Extractor that found the title, also when the page came from Archive.org
+    extractor?: ExtractorId;
+    cached?: boolean;
+}
+
+interface MetadataExtractor {
+    id: ExtractorId;
+    name: string;
+    desc: string;
+    extract(page: PageMetadataParser): PageMetadata;
+}
+
+interface ExtractorSetting {
+    id: ExtractorId;
+    enabled: boolean;
+}
+
+interface FallbackProvider {
+    type: FallbackProviderType;
+    name: string;
+    desc: string;
+    fetch(url: string, config: FallbackProviderSetting, settings: UrlNameExtractorSettings, signal?: AbortSignal): Promise<Omit<TitleResult, 'source'>>;
+}
+
+interface FallbackProviderSetting {
+    type: FallbackProviderType;
+    enabled: boolean;
+    // Custom endpoints only
+    name?: string;
+    // {url} is replaced with the encoded URL
+    urlTemplate?: string;
+    headers?: Record<string, string>;
+    // Dot path to the title in the JSON response, e.g. "data.title"; empty for a plain-text response
+    titlePath?: string;
+}
+
+// How pages on a domain are fetched: "auto" tries plain headers, then
+// browser-like ones, then the enabled fallbacks; a fallback type asks that
+// provider directly without requesting the page
+type RequestStrategy = 'auto' | 'direct' | 'complex' | FallbackProviderType;
+
+const REQUEST_STRATEGY_LABELS: Record<RequestStrategy, string> = {
+    'auto': 'Automatic',
+    'direct': 'Direct request only',
+    'complex': 'Browser headers',
+    'archive': 'Archive.org',
+    'microlink': 'Microlink',
+    'custom': 'Custom endpoint'
+};
+
+interface RequestProfile {
+    // Also matches subdomains
+    domain: string;
+    strategy: RequestStrategy;
+    // Name of the custom endpoint used by the "custom" strategy
+    customProvider?: string;
+    headers: Record<string, string>;
+    cookies: string;
+    userAgent: string;
+    acceptLanguage: string;
+    // 0 = no timeout
+    timeoutSeconds: number;
+}
+
+// Fallback settings before the provider list
+interface LegacyFallbackSettings {
+    useArchiveFallback?: boolean;
+    useMicrolinkFallback?: boolean;
+    fallbackPriority?: 'archive-first' | 'microlink-first';
+}
+
+// Microlink calls made on one UTC day
+interface MicrolinkUsage {
+    day: string;
+    count: number;
+    // Microlink reported the quota as used up
+    exhausted: boolean;
+}
+
+interface CacheEntry extends PageMetadata {
+    title: string;
+    source: TitleSource;
+    extractor?: ExtractorId;
+    fetchedAt: number;
+    // HTTP status of the direct request (e.g. 403 when a fallback supplied the title)
+    status: number;
+    // For short links: where the link redirected to
+    expandedUrl?: string;
+}
+
+// Where a URL sits in the markdown; only bare URLs and the contexts enabled in settings are converted
+type UrlContext = 'bare' | 'markdown-link' | 'link-text' | 'autolink' | 'inline-code' | 'code-block'
+    | 'frontmatter' | 'html' | 'reference-definition' | 'wikilink';
+
+type ConvertibleContext = 'autolink' | 'inline-code' | 'code-block';
+
+const CONVERTIBLE_CONTEXT_LABELS: Record<ConvertibleContext, { name: string, desc: string }> = {
+    'autolink': {
+        name: 'Convert angle-bracket autolinks',
+        desc: 'Replace <https://…> autolinks (including the brackets) with titled links.'
+    },
+    'inline-code': {
+        name: 'Convert URLs in inline code',
+        desc: 'Name URLs inside `backtick` code spans. The link is written inside the code span.'
+    },
+    'code-block': {
+        name: 'Convert URLs in code blocks',
+        desc: 'Name URLs inside fenced ``` code blocks.'
+    }
+};
+
+interface UrlMatch {
+    url: string;
+    // Span to replace; wider than the URL for autolinks, whose brackets are replaced too
+    start: number;
+    end: number;
+    context: UrlContext;
+    // End of the construct holding the URL, e.g. after the ")" of a markdown link
+    constructEnd: number;
+}
+
+// An inline [text](url) link; the text range excludes the brackets
+interface MarkdownLink {
+    text: string;
+    url: string;
+    textStart: number;
+    textEnd: number;
+}
+
+interface ReviewItem {
+    url: string;
+    // Editable title, initially the fetched one
+    title: string;
+    // Current link text when re-titling an existing link, shown as a diff
+    previous?: string;
+    // Undefined when fetching the title failed
+    result?: TitleResult;
+    approved: boolean;
+}
+
+type UrlFailureReason = 'invalid-url' | 'bot-protection' | 'http-error' | 'network' | 'timeout' | 'rate-limited' | 'no-title' | 'other';
+type UrlSkipReason = 'cancelled' | 'text-changed' | 'not-approved' | 'unchanged';
+
+const URL_OUTCOME_REASON_LABELS: Record<UrlFailureReason | UrlSkipReason, string> = {
+    'invalid-url': 'Invalid URL',
+    'bot-protection': 'Bot protection',
+    'http-error': 'HTTP error',
+    'network': 'Network error',
+    'timeout': 'Timed out',
+    'rate-limited': 'Rate limited',
+    'no-title': 'No title found',
+    'other': 'Error',
+    'cancelled': 'Cancelled',
+    'text-changed': 'Text changed',
+    'not-approved': 'Skipped in review',
+    'unchanged': 'Title unchanged'
+};
+
+// The outcome of one URL of a run, in document order
+type UrlOutcome =
+    | { url: string, status: 'success', result: TitleResult }
+    | { url: string, status: 'failed', result: null, reason: UrlFailureReason, error: string }
+    | { url: string, status: 'skipped', result: null, reason: UrlSkipReason };
+
+interface TaggingResult {
+    text: string;
+    // Reference definitions to append to the end of the note (reference-style templates)
+    definitions: string[];
+    urlCount: number;
+    successCount: number;
+    failureCount: number;
+    outcomes: UrlOutcome[];
+}
+
+// What the editor commands insert for each URL
+type EditorOutput = 'link' | 'card';
+
+interface TaggingOptions {
+    // Ask this fallback provider instead of fetching the pages (retrying failures)
+    provider?: FallbackProviderSetting;
+}
+
+interface BulkFileResult {
+    path: string;
+    urlCount: number;
+    successCount: number;
+    failureCount: number;
+    status: 'updated' | 'unchanged' | 'modified' | 'error';
+    error?: string;
+    outcomes: UrlOutcome[];
+}
+
+interface BulkSummary {
+    fileCount: number;
+    changedCount: number;
+    urlCount: number;
+    successCount: number;
+    failureCount: number;
+}
+
+// One attempt or decision while fetching a title, for the diagnostics view
+interface TraceStep {
+    step: string;
+    outcome: 'ok' | 'failed' | 'info';
+    status?: number;
+    durationMs?: number;
+    detail?: string;
+}
+
+type TraceOutcome = 'pending' | 'success' | 'failed' | 'cancelled';
+
+type LinkStatus = 'ok' | 'redirected' | 'dead' | 'blocked' | 'error';
+
+interface LinkHop {
+    url: string;
+    status: number;
+}
 
+interface LinkCheckResult {
+    url: string;
+    status: LinkStatus;
+    // HTTP status of the final response; null when there was none (e.g. DNS failure)
+    code: number | null;
+    // Responses that redirected, in order. Only traced on desktop.
+    redirects: LinkHop[];
+    finalUrl: string;
+    error?: string;
+    // Closest Wayback Machine snapshot, looked up for dead links
+    archivedUrl?: string;
+    files: TFile[];
+}
 
 interface SitePattern {
-    urlMatch: string;
+    // Hostname glob such as "*.example.com" (a plain domain also matches its
+    // subdomains), or a regular expression tested against the whole URL
+    matcher: string;
+    matcherType: 'glob' | 'regex';
     titleRegex: string;
+    // Capture group holding the title
+    group: number;
+    enabled: boolean;
+}
+
+interface TitleRule {
+    // Empty to apply to every site
+    domain: string;
+    find: string;
+    replace: string;
+}
+
+interface DomainTemplate {
+    domain: string;
+    template: string;
 }
 
 interface UrlNameExtractorSettings {
     urlRegex: string;
     sitePatterns: SitePattern[];
-    useArchiveFallback: boolean;
-    useMicrolinkFallback: boolean;
+    fallbackProviders: FallbackProviderSetting[];
     microlinkApiKey: string;
-    fallbackPriority: 'archive-first' | 'microlink-first';
+    // 0 = no limit; null = the free plan's limit, or no limit with an API key
+    microlinkDailyLimit: number | null;
+    // Calls kept back from automatic fallbacks, for explicit retries
+    microlinkReserve: number;
+    microlinkUsage: MicrolinkUsage;
     requestDelay: number;
+    maxConcurrentRequests: number;
+    reviewBeforeInsert: boolean;
+    useTitleCache: boolean;
+    cacheTtlDays: number;
+    linkTemplate: string;
+    domainTemplates: DomainTemplate[];
+    collapseWhitespace: boolean;
+    stripSiteName: boolean;
+    maxTitleLength: number;
+    titleRules: TitleRule[];
+    convertContexts: ConvertibleContext[];
+    extractors: ExtractorSetting[];
+    useCitationResolver: boolean;
+    citationTemplate: string;
+    cardTemplate: string;
+    convertOnPaste: boolean;
+    pasteDenylist: string[];
+    stripTrackingParams: boolean;
+    trackingParams: string[];
+    expandShorteners: boolean;
+    shortenerDomains: string[];
+    useCanonicalUrl: boolean;
+    requestProfiles: RequestProfile[];
 }
 
 const DEFAULT_SETTINGS: UrlNameExtractorSettings = {
     urlRegex: 'https?:\\/\\/[^\\s\\]\\)]+',
     sitePatterns: [],
-    useArchiveFallback: false,
-    useMicrolinkFallback: false,
+    fallbackProviders: [{ type: 'microlink', enabled: false }, { type: 'archive', enabled: false }],
     microlinkApiKey: '',
-    fallbackPriority: 'microlink-first',
-    requestDelay: 1000  // 1 second delay between bulk requests to avoid rate limiting
+    microlinkDailyLimit: null,
+    microlinkReserve: 0,
+    microlinkUsage: { day: '', count: 0, exhausted: false },
+    requestDelay: 1000,  // 1 second delay between requests to the same host to avoid rate limiting
+    maxConcurrentRequests: 4,
+    reviewBeforeInsert: false,
+    useTitleCache: true,
+    cacheTtlDays: 30,
+    linkTemplate: '[{title}]({url})',
+    domainTemplates: [],
+    collapseWhitespace: true,
+    stripSiteName: false,
+    maxTitleLength: 0,  // 0 = no limit
+    titleRules: [],
+    convertContexts: [],
+    // Site patterns, then <title>, then og:title as before; the richer sources follow
+    extractors: (['site-pattern', 'direct', 'og', 'json-ld', 'twitter', 'citation', 'dublin-core', 'h1'] as ExtractorId[])
+        .map(id => ({ id, enabled: true })),
+    useCitationResolver: false,
+    citationTemplate: '{authors} ({year}) — {title}',
+    cardTemplate: '> [!info] [{title}]({url})\n> {description}\n>\n> ![]({image})\n> {siteName}',
+    convertOnPaste: false,
+    pasteDenylist: [],
+    stripTrackingParams: false,
+    // A trailing * matches any suffix
+    trackingParams: ['utm_*', 'fbclid', 'gclid', 'dclid', 'msclkid', 'yclid', 'mc_cid', 'mc_eid', 'igshid', '_hsenc', '_hsmi', 'ref', 'ref_src'],
+    expandShorteners: false,
+    shortenerDomains: ['t.co', 'bit.ly', 'tinyurl.com', 'goo.gl', 'ow.ly', 'buff.ly', 'is.gd', 'lnkd.in', 'dlvr.it', 'trib.al', 'amzn.to', 'rebrand.ly'],
+    useCanonicalUrl: false,
+    requestProfiles: []
+};
+
+// Built-in choices for the link template setting; any other value is a custom template
+const LINK_TEMPLATE_PRESETS: Record<string, string> = {
+    '[{title}]({url})': 'Markdown link',
+    '[{title}]({url}) — {domain}': 'Markdown link with domain',
+    '{title} ({siteName}, {date})': 'Title (site, date)',
+    '<a href="{url}">{title}</a>': 'HTML link',
+    '[{title}][{ref}]': 'Reference-style link'
+};
+
+// Built-in choices for the link card template
+const CARD_TEMPLATE_PRESETS: Record<string, string> = {
+    [DEFAULT_SETTINGS.cardTemplate]: 'Callout',
+    '<div class="url-namer-card">\n<img class="url-namer-card-image" src="{image}">\n<a href="{url}">{title}</a>\n<p>{description}</p>\n<small><img class="url-namer-card-icon" src="{favicon}"> {siteName}</small>\n</div>': 'HTML card'
 };
 
+// Matches a hostname against a domain, including its subdomains
+function hostMatchesDomain(hostname: string, domain: string): boolean {
+    const host = hostname.toLowerCase();
+    const target = domain.trim().toLowerCase();
+    return host === target || host.endsWith(`.${target}`);
+}
+
+const CACHE_FILE_NAME = 'title-cache.json';
+const DIAGNOSTICS_VIEW_TYPE = 'url-namer-diagnostics';
+
 export default class UrlNamer extends Plugin {
 
     modal: MsgModal = new MsgModal(this.app);
     settings: UrlNameExtractorSettings;
+    cache: TitleCache;
+    // For other plugins and scripts, see api.d.ts
+    api: PluginApi;
+    // Set by Ctrl/Cmd+Shift+V, which pastes without naming URLs
+    private plainPaste = false;
 
     async onload() {
         await this.loadSettings();
 
+        this.cache = new TitleCache(this.app.vault.adapter, normalizePath(`${this.manifest.dir ?? ''}/${CACHE_FILE_NAME}`));
+        await this.cache.load(this.settings.cacheTtlDays);
+        UrlTitleFetcher.cache = this.cache;
+        MicrolinkQuota.persist = debounce(() => this.saveSettings(), 2000, true);
+        this.api = new PluginApi(this);
+        this.registerView(DIAGNOSTICS_VIEW_TYPE, leaf => new DiagnosticsView(leaf, this));
+
+        this.addCommand({
+            id: 'open-fetch-diagnostics',
+            name: 'Open fetch diagnostics',
+            callback: () => {
+                this.openDiagnostics()
+                    .catch(e => this.modal.showMsg(e instanceof Error ? e.message : String(e)));
+            }
+        });
+
         this.addCommand({
             id: 'convert-urls-to-titled-links',
             name: 'Name the URL links in the selected text',
             editorCallback: (editor: Editor, view: MarkdownView) => {
-                const loadingIndicator = new Notice('Fetching titles for selected text...', 0);
-                UrlTagger.getTaggedText(editor.getSelection(), this.settings)
-                    .then(taggedText => {
-                        editor.replaceSelection(taggedText);
-                        loadingIndicator.hide();
-                    })
+                EditorTagger.run(this.app, editor, view, this.settings)
+                    .catch(e => this.modal.showMsg(e instanceof Error ? e.message : String(e)));
+            }
+        });
+
+        this.addCommand({
+            id: 'repair-link-titles',
+            name: 'Repair link titles in the selection or current file',
+            editorCallback: (editor: Editor, view: MarkdownView) => {
+                LinkRepairer.run(this.app, editor, view, this.settings, 'repair')
+                    .catch(e => this.modal.showMsg(e instanceof Error ? e.message : String(e)));
+            }
+        });
+
+        this.addCommand({
+            id: 'refresh-link-titles',
+            name: 'Refresh all link titles in the selection or current file',
+            editorCallback: (editor: Editor, view: MarkdownView) => {
+                LinkRepairer.run(this.app, editor, view, this.settings, 'refresh')
+                    .catch(e => this.modal.showMsg(e instanceof Error ? e.message : String(e)));
+            }
+        });
+
+        this.addCommand({
+            id: 'convert-url-to-link-card',
+            name: 'Convert URL to link card',
+            editorCallback: (editor: Editor, view: MarkdownView) => {
+                EditorTagger.run(this.app, editor, view, this.settings, 'card')
+                    .catch(e => this.modal.showMsg(e instanceof Error ? e.message : String(e)));
+            }
+        });
+
+        this.addCommand({
+            id: 'convert-urls-in-active-file',
+            name: 'Name the URL links in the current file',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'md') {
+                    return false;
+                }
+                if (!checking) {
+                    VaultTagger.microlinkWarning(this.app, [file], this.settings)
+                        .then(warning => this.convertFiles([file], file.basename, warning))
+                        .catch(e => this.modal.showMsg(e instanceof Error ? e.message : String(e)));
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'convert-urls-in-folder',
+            name: 'Name the URL links in all files of a folder',
+            callback: () => {
+                new FolderSuggestModal(this.app, folder => this.convertFolder(folder)).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'convert-urls-in-vault',
+            name: 'Name the URL links in all files of the vault',
+            callback: () => {
+                const files = this.app.vault.getMarkdownFiles();
+                this.confirmConvert(files, 'vault', `Name the raw URLs in all ${files.length} notes of the vault? Notes are modified in place.`)
                     .catch(e => this.modal.showMsg(e instanceof Error ? e.message : String(e)));
             }
         });
 
+        this.addCommand({
+            id: 'check-links-in-active-file',
+            name: 'Check links in the current file',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'md') {
+                    return false;
+                }
+                if (!checking) {
+                    new LinkCheckModal(this.app, [file], file.basename, this.settings).open();
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'check-links-in-vault',
+            name: 'Check links in all files of the vault',
+            callback: () => {
+                new LinkCheckModal(this.app, this.app.vault.getMarkdownFiles(), 'vault', this.settings).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'clear-title-cache',
+            name: 'Clear the title cache',
+            callback: async () => {
+                const count = this.cache.size();
+                await this.cache.clear();
+                new Notice(`Cleared ${count} cached titles.`);
+            }
+        });
+
+        this.addCommand({
+            id: 'clear-title-cache-domain',
+            name: 'Clear the title cache for one domain',
+            callback: () => {
+                const domains = this.cache.domains();
+                if (domains.length === 0) {
+                    new Notice('The title cache is empty.');
+                    return;
+                }
+                new DomainSuggestModal(this.app, domains, async domain => {
+                    const count = await this.cache.clearDomain(domain);
+                    new Notice(`Cleared ${count} cached titles for ${domain}.`);
+                }).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'show-title-cache-stats',
+            name: 'Show title cache statistics',
+            callback: () => {
+                this.modal.showMsg(this.cache.describe(this.settings.cacheTtlDays));
+            }
+        });
+
+        this.addCommand({
+            id: 'paste-without-naming',
+            name: 'Paste without naming URLs',
+            editorCallback: async (editor: Editor) => {
+                editor.replaceSelection(await navigator.clipboard.readText());
+            }
+        });
+
+        this.registerDomEvent(document, 'keydown', evt => {
+            if ((evt.ctrlKey || evt.metaKey) && evt.key.toLowerCase() === 'v') {
+                this.plainPaste = evt.shiftKey;
+            }
+        }, { capture: true });
+
+        this.registerEvent(this.app.workspace.on('editor-paste', (evt, editor, info) => {
+            const plain = this.plainPaste;
+            this.plainPaste = false;
+            if (this.settings.convertOnPaste && !plain && !evt.defaultPrevented) {
+                PasteTagger.handle(evt, editor, info, this.settings);
+            }
+        }));
+
+        this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+            if (!(file instanceof TFolder)) {
+                return;
+            }
+            menu.addItem(item => item
+                .setTitle('Name the URL links in folder')
+                .setIcon('link')
+                .onClick(() => this.convertFolder(file)));
+        }));
+
+        this.registerObsidianProtocolHandler(UriHandler.action, params => {
+            UriHandler.handle(this.app, params, this.settings)
+                .catch(e => new Notice(`URL Name Extractor: ${e instanceof Error ? e.message : String(e)}`, 8000));
+        });
+
         this.addSettingTab(new UrlNameExtractorSettingTab(this.app, this));
     }
 
+    async onunload() {
+        UrlTitleFetcher.cache = null;
+        MicrolinkQuota.persist = null;
+        await this.cache?.save();
+        await this.saveSettings();
+    }
+
+    async openDiagnostics() {
+        const existing = this.app.workspace.getLeavesOfType(DIAGNOSTICS_VIEW_TYPE)[0];
+        const leaf = existing ?? this.app.workspace.getRightLeaf(false);
+        if (!leaf) {
+            return;
+        }
+        if (!existing) {
+            await leaf.setViewState({ type: DIAGNOSTICS_VIEW_TYPE, active: true });
+        }
+        await this.app.workspace.revealLeaf(leaf);
+    }
+
+    convertFolder(folder: TFolder) {
+        const files: TFile[] = [];
+        Vault.recurseChildren(folder, child => {
+            if (child instanceof TFile && child.extension === 'md') {
+                files.push(child);
+            }
+        });
+        const label = folder.isRoot() ? 'vault' : folder.path;
+        this.confirmConvert(files, label, `Name the raw URLs in ${files.length} notes in "${label}"? Notes are modified in place.`)
+            .catch(e => this.modal.showMsg(e instanceof Error ? e.message : String(e)));
+    }
+
+    // Asks before a folder or vault run, warning when it may need more Microlink calls than are left today
+    async confirmConvert(files: TFile[], label: string, message: string) {
+        const warning = await VaultTagger.microlinkWarning(this.app, files, this.settings);
+        new ConfirmModal(
+            this.app,
+            warning ? `${message} ${warning}` : message,
+            () => {
+                this.convertFiles(files, label, warning)
+                    .catch(e => this.modal.showMsg(e instanceof Error ? e.message : String(e)));
+            }
+        ).open();
+    }
+
+    async convertFiles(files: TFile[], label: string, warning?: string) {
+        if (files.length === 0) {
+            new Notice('No notes to process.');
+            return;
+        }
+        const progress = new BulkProgressModal(this.app, label, files.length);
+        progress.open();
+        const summary = await VaultTagger.tagFiles(this.app, files, this.settings, progress);
+        progress.finish(summary);
+        new Notice(`Processed ${summary.fileCount} notes: ${summary.changedCount} updated, ${summary.successCount} URLs named, ${summary.failureCount} failed.${warning ? `\n${warning}` : ''}`);
+    }
+
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const data = await this.loadData();
+        // A deep copy, so that editing the settings doesn't change the defaults' arrays
+        this.settings = Object.assign(JSON.parse(JSON.stringify(DEFAULT_SETTINGS)), data);
         
         // Validate and clamp numeric values
         this.settings.requestDelay = Math.max(0, Math.min(5000, this.settings.requestDelay ?? 1000));
+        this.settings.maxConcurrentRequests = Math.max(1, Math.min(10, this.settings.maxConcurrentRequests ?? 4));
+        this.settings.cacheTtlDays = Math.max(1, Math.min(365, this.settings.cacheTtlDays ?? 30));
+        this.settings.maxTitleLength = Math.max(0, Math.min(500, this.settings.maxTitleLength ?? 0));
         
-        // Validate fallback priority
-        if (!['archive-first', 'microlink-first'].includes(this.settings.fallbackPriority)) {
-            this.settings.fallbackPriority = 'microlink-first';
+        // Fall back to the plain markdown link if the template was cleared
+        if (typeof this.settings.linkTemplate !== 'string' || !this.settings.linkTemplate.trim()) {
+            this.settings.linkTemplate = DEFAULT_SETTINGS.linkTemplate;
+        }
+        if (typeof this.settings.citationTemplate !== 'string' || !this.settings.citationTemplate.trim()) {
+            this.settings.citationTemplate = DEFAULT_SETTINGS.citationTemplate;
+        }
+        if (typeof this.settings.cardTemplate !== 'string' || !this.settings.cardTemplate.trim()) {
+            this.settings.cardTemplate = DEFAULT_SETTINGS.cardTemplate;
+        }
+        // Older site patterns were "urlMatch|titleRegex" pairs matched with url.includes
+        this.settings.sitePatterns = (Array.isArray(this.settings.sitePatterns) ? this.settings.sitePatterns : [])
+            .map(pattern => SiteRules.normalize(pattern))
+            .filter((pattern): pattern is SitePattern => pattern !== null);
+        if (typeof this.settings.microlinkDailyLimit !== 'number' || this.settings.microlinkDailyLimit < 0) {
+            this.settings.microlinkDailyLimit = null;
+        }
+        const usage = this.settings.microlinkUsage;
+        if (typeof usage?.day !== 'string' || typeof usage.count !== 'number') {
+            this.settings.microlinkUsage = { ...DEFAULT_SETTINGS.microlinkUsage };
+        }
+        if (!Array.isArray(this.settings.requestProfiles)) {
+            this.settings.requestProfiles = [];
+        }
+        this.settings.requestProfiles = this.settings.requestProfiles.map(profile => ({ ...RequestProfiles.create(), ...profile }));
+        if (!Array.isArray(this.settings.domainTemplates)) {
+            this.settings.domainTemplates = [];
+        }
+        if (!Array.isArray(this.settings.titleRules)) {
+            this.settings.titleRules = [];
+        }
+        if (!Array.isArray(this.settings.pasteDenylist)) {
+            this.settings.pasteDenylist = [];
+        }
+        if (!Array.isArray(this.settings.trackingParams)) {
+            this.settings.trackingParams = [...DEFAULT_SETTINGS.trackingParams];
+        }
+        if (!Array.isArray(this.settings.shortenerDomains)) {
+            this.settings.shortenerDomains = [...DEFAULT_SETTINGS.shortenerDomains];
+        }
+        if (!Array.isArray(this.settings.convertContexts)) {
+            this.settings.convertContexts = [];
+        }
+        this.settings.convertContexts = this.settings.convertContexts
+            .filter(c => Object.prototype.hasOwnProperty.call(CONVERTIBLE_CONTEXT_LABELS, c));
+
+        // Keep the saved extractor order, drop unknown ids and add extractors introduced since
+        const savedExtractors = Array.isArray(this.settings.extractors) ? this.settings.extractors : [];
+        const extractors = savedExtractors.filter((e, i) =>
+            METADATA_EXTRACTORS.some(m => m.id === e?.id) && savedExtractors.findIndex(o => o?.id === e.id) === i);
+        for (const defaults of DEFAULT_SETTINGS.extractors) {
+            if (!extractors.some(e => e.id === defaults.id)) {
+                extractors.push({ ...defaults });
+            }
+        }
+        this.settings.extractors = extractors;
+
+        // Fallbacks used to be two toggles and a priority; turn them into the provider list
+        const legacy = this.settings as UrlNameExtractorSettings & LegacyFallbackSettings;
+        if (!Array.isArray(data?.fallbackProviders)) {
+            const order: FallbackProviderType[] = legacy.fallbackPriority === 'archive-first' ? ['archive', 'microlink'] : ['microlink', 'archive'];
+            this.settings.fallbackProviders = order.map(type => ({
+                type,
+                enabled: type === 'archive' ? legacy.useArchiveFallback === true : legacy.useMicrolinkFallback === true
+            }));
         }
+        delete legacy.useArchiveFallback;
+        delete legacy.useMicrolinkFallback;
+        delete legacy.fallbackPriority;
+
+        // Drop unknown providers and duplicates of the built-in ones, and add built-ins that are missing
+        const providers = this.settings.fallbackProviders.filter((p, i, all) =>
+            Object.prototype.hasOwnProperty.call(FALLBACK_PROVIDERS, p?.type)
+            && (p.type === 'custom' || all.findIndex(o => o?.type === p.type) === i));
+        for (const defaults of DEFAULT_SETTINGS.fallbackProviders) {
+            if (!providers.some(p => p.type === defaults.type)) {
+                providers.push({ ...defaults });
+            }
+        }
+        this.settings.fallbackProviders = providers;
     }
 
     async saveSettings() {
@@ -109,6 +847,90 @@ export default class UrlNamer extends Plugin {
 
 }
 
+// The API in api.d.ts. Runs with the plugin's current settings and without
+// notices, as the caller reports the results.
+class PluginApi implements UrlNameExtractorApi {
+
+    readonly version = 1;
+
+    constructor(private plugin: UrlNamer) {}
+
+    async getTitle(url: string): Promise<UrlTitleResult> {
+        return PluginApi.toTitleResult(await this.lookup(url));
+    }
+
+    async getMetadata(url: string): Promise<UrlMetadataResult> {
+        const lookup = await this.lookup(url);
+        return { ...PluginApi.toTitleResult(lookup), metadata: lookup.result ? PluginApi.toMetadata(lookup.result) : undefined };
+    }
+
+    async convertText(text: string): Promise<ConvertTextResult> {
+        let tagged: TaggingResult;
+        try {
+            tagged = await UrlTagger.tagText(text, this.plugin.settings);
+        } catch (e) {
+            return { text, urlCount: 0, successCount: 0, failureCount: 0, urls: [], error: e instanceof Error ? e.message : String(e) };
+        }
+        return {
+            text: LinkFormatter.appendDefinitions(tagged.text, tagged.definitions),
+            urlCount: tagged.urlCount,
+            successCount: tagged.successCount,
+            failureCount: tagged.failureCount,
+            urls: tagged.outcomes.map(outcome => PluginApi.toTitleResult(outcome))
+        };
+    }
+
+    async convertFile(file: TFile): Promise<ConvertFileResult> {
+        const result = await VaultTagger.tagFile(this.plugin.app, file, this.plugin.settings);
+        return {
+            path: result.path,
+            status: result.status,
+            error: result.error,
+            urlCount: result.urlCount,
+            successCount: result.successCount,
+            failureCount: result.failureCount,
+            urls: result.outcomes.map(outcome => PluginApi.toTitleResult(outcome))
+        };
+    }
+
+    private lookup(url: string): Promise<UrlOutcome> {
+        return UrlTitleFetcher.getNamedUrl(url, this.plugin.settings);
+    }
+
+    private static toTitleResult(outcome: UrlOutcome): UrlTitleResult {
+        const { url, result } = outcome;
+        if (outcome.status === 'failed') {
+            return { url, status: 'failed', reason: outcome.reason, error: outcome.error };
+        }
+        if (!result) {
+            return { url, status: 'failed', error: URL_OUTCOME_REASON_LABELS[outcome.reason] };
+        }
+        return {
+            url,
+            status: 'success',
+            title: result.title,
+            source: result.source,
+            sourceLabel: TITLE_SOURCE_LABELS[result.source],
+            linkUrl: result.url ?? url,
+            cached: result.cached === true
+        };
+    }
+
+    private static toMetadata(result: TitleResult): UrlMetadata {
+        return {
+            siteName: result.siteName,
+            author: result.author,
+            published: result.published,
+            description: result.description,
+            doi: result.doi,
+            image: result.image,
+            favicon: result.favicon,
+            canonicalUrl: result.canonicalUrl
+        };
+    }
+
+}
+
 class UrlNameExtractorSettingTab extends PluginSettingTab {
     plugin: UrlNamer;
 
@@ -143,257 +965,4354 @@ class UrlNameExtractorSettingTab extends PluginSettingTab {
                     component.inputEl.cols = 50;
                 }));
 
-        new Setting(containerEl)
-            .setName('Site-specific title patterns')
-            .setDesc('For websites with non-standard title tags. Format: one pattern per line as "urlMatch|titleRegex". Example: "arxiv.org|<meta name=\\"citation_title\\" content=\\"([^\\"]*)\\">"')
-            .addTextArea(text => text
-                .setPlaceholder('arxiv.org|<meta name="citation_title" content="([^"]*)">')
-                .setValue(this.plugin.settings.sitePatterns
-                    .map(p => `${p.urlMatch}|${p.titleRegex}`)
-                    .join('\n'))
-                .onChange(async (value) => {
-                    try {
-                        const patterns: SitePattern[] = [];
-                        const lines = value.split('\n').filter(line => line.trim());
-                        
-                        for (const line of lines) {
-                            const parts = line.split('|');
-                            if (parts.length < 2) {
-                                throw new Error(`Invalid format in line: "${line}". Expected format: urlMatch|titleRegex`);
-                            }
-                            
-                            const urlMatch = parts[0].trim();
-                            const titleRegex = parts.slice(1).join('|').trim(); // Handle | in regex
-                            
-                            // Validate regex
-                            new RegExp(titleRegex, 'im');
-                            
-                            patterns.push({ urlMatch, titleRegex });
-                        }
-                        
-                        this.plugin.settings.sitePatterns = patterns;
-                        await this.plugin.saveSettings();
-                    } catch (e) {
-                        new Notice(`Invalid site pattern: ${e instanceof Error ? e.message : String(e)}`, 5000);
-                    }
-                })
-                .then(component => {
-                    component.inputEl.rows = 8;
-                    component.inputEl.cols = 50;
-                }));
+        this.displaySiteRules(containerEl);
 
         // Note: Obsidian's requestUrl() automatically handles HTTP redirects
         // No manual redirect configuration needed
 
+        for (const [context, label] of Object.entries(CONVERTIBLE_CONTEXT_LABELS) as Array<[ConvertibleContext, { name: string, desc: string }]>) {
+            new Setting(containerEl)
+                .setName(label.name)
+                .setDesc(label.desc)
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.convertContexts.includes(context))
+                    .onChange(async (value) => {
+                        const contexts = this.plugin.settings.convertContexts.filter(c => c !== context);
+                        if (value) {
+                            contexts.push(context);
+                        }
+                        this.plugin.settings.convertContexts = contexts;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        this.displayExtractors(containerEl);
+        this.displayCitations(containerEl);
+        this.displayLinkFormat(containerEl);
+        this.displayLinkCard(containerEl);
+        this.displayTitleCleanup(containerEl);
+        this.displayUrlCleanup(containerEl);
+
+        this.displayFallbacks(containerEl);
+
         new Setting(containerEl)
-            .setName('Use Archive.org fallback')
-            .setDesc('When a site blocks access (e.g., Cloudflare), attempt to fetch from Archive.org\'s Wayback Machine. May not have recent content.')
-            .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.useArchiveFallback)
+            .setName('Simultaneous requests')
+            .setDesc('How many URLs are fetched at the same time. Requests to the same site still wait for the delay below. (Default: 4)')
+            .addSlider(slider => slider
+                .setLimits(1, 10, 1)
+                .setValue(this.plugin.settings.maxConcurrentRequests)
+                .setDynamicTooltip()
                 .onChange(async (value) => {
-                    this.plugin.settings.useArchiveFallback = value;
+                    this.plugin.settings.maxConcurrentRequests = value;
                     await this.plugin.saveSettings();
-                    this.display(); // Refresh to show/hide priority setting
                 }));
 
         new Setting(containerEl)
-            .setName('Use Microlink fallback')
-            .setDesc('When a site blocks access, fetch title via Microlink API. URLs are sent to a third-party service. ⚠️ Free tier: 50 requests/day — when exhausted, other fallbacks will be tried.')
-            .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.useMicrolinkFallback)
+            .setName('Delay between requests to the same site')
+            .setDesc('Milliseconds to wait between requests to the same hostname. Requests to different sites are not delayed. Helps avoid rate limiting. (Default: 1000ms = 1 second)')
+            .addSlider(slider => slider
+                .setLimits(0, 5000, 100)
+                .setValue(this.plugin.settings.requestDelay)
+                .setDynamicTooltip()
                 .onChange(async (value) => {
-                    this.plugin.settings.useMicrolinkFallback = value;
+                    this.plugin.settings.requestDelay = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.displayRequestProfiles(containerEl);
+
+        new Setting(containerEl)
+            .setName('Cache fetched titles')
+            .setDesc('Remember fetched titles so the same URL is not requested again. Saves fallback quota and time on repeated runs.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.useTitleCache)
+                .onChange(async (value) => {
+                    this.plugin.settings.useTitleCache = value;
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide TTL setting
+                }));
+
+        if (this.plugin.settings.useTitleCache) {
+            new Setting(containerEl)
+                .setName('Cache lifetime (days)')
+                .setDesc(`Cached titles older than this are fetched again. ${this.plugin.cache.size()} titles cached.`)
+                .addSlider(slider => slider
+                    .setLimits(1, 365, 1)
+                    .setValue(this.plugin.settings.cacheTtlDays)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.cacheTtlDays = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addButton(button => button
+                    .setButtonText('Clear cache')
+                    .onClick(async () => {
+                        await this.plugin.cache.clear();
+                        new Notice('Title cache cleared.');
+                        this.display();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('Review titles before inserting')
+            .setDesc('When naming the URLs in the selected text, show the fetched titles first so they can be edited or skipped.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.reviewBeforeInsert)
+                .onChange(async (value) => {
+                    this.plugin.settings.reviewBeforeInsert = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Name URLs on paste')
+            .setDesc('Pasting a URL, or text containing URLs, inserts a placeholder that is replaced with the titled link once the title arrives. Ctrl/Cmd+Shift+V or the "Paste without naming URLs" command pastes as is.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.convertOnPaste)
+                .onChange(async (value) => {
+                    this.plugin.settings.convertOnPaste = value;
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide the denylist
+                }));
+
+        if (this.plugin.settings.convertOnPaste) {
+            new Setting(containerEl)
+                .setName('Paste denylist')
+                .setDesc('Domains (including subdomains) whose URLs are pasted as is. One domain per line.')
+                .addTextArea(text => text
+                    .setPlaceholder('localhost\nmail.google.com')
+                    .setValue(this.plugin.settings.pasteDenylist.join('\n'))
+                    .onChange(async (value) => {
+                        this.plugin.settings.pasteDenylist = value.split('\n').map(line => line.trim()).filter(line => line);
+                        await this.plugin.saveSettings();
+                    })
+                    .then(component => {
+                        component.inputEl.rows = 4;
+                        component.inputEl.cols = 50;
+                    }));
+        }
+
+        // Note: Obsidian's requestUrl() automatically handles HTTP redirects
+        // No manual redirect configuration needed
+
+    }
+
+    private displayExtractors(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setName('Metadata extractors')
+            .setDesc('Where titles and other page details are read from, in order. The first extractor that finds a title provides it; author, date, description and site name come from the first extractor that has them.')
+            .setHeading();
+
+        const extractors = this.plugin.settings.extractors;
+        extractors.forEach((setting, index) => {
+            const extractor = METADATA_EXTRACTORS.find(e => e.id === setting.id);
+            if (!extractor) {
+                return;
+            }
+            const move = async (offset: number) => {
+                extractors.splice(index, 1);
+                extractors.splice(index + offset, 0, setting);
+                await this.plugin.saveSettings();
+                this.display();
+            };
+            new Setting(containerEl)
+                .setName(`${index + 1}. ${extractor.name}`)
+                .setDesc(extractor.desc)
+                .addExtraButton(button => button
+                    .setIcon('arrow-up')
+                    .setTooltip('Move up')
+                    .setDisabled(index === 0)
+                    .onClick(() => move(-1)))
+                .addExtraButton(button => button
+                    .setIcon('arrow-down')
+                    .setTooltip('Move down')
+                    .setDisabled(index === extractors.length - 1)
+                    .onClick(() => move(1)))
+                .addToggle(toggle => toggle
+                    .setValue(setting.enabled)
+                    .onChange(async (value) => {
+                        setting.enabled = value;
+                        await this.plugin.saveSettings();
+                    }));
+        });
+    }
+
+    private displaySiteRules(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setName('Site-specific title rules')
+            .setDesc('For websites with non-standard title tags. Match sites by hostname glob (e.g. "*.arxiv.org"; a plain domain also matches its subdomains) or by a regex on the whole URL. The title is the given capture group of the title regex. The first enabled rule that matches and finds a title wins.')
+            .setHeading();
+
+        const rules = this.plugin.settings.sitePatterns;
+        rules.forEach((rule, index) => {
+            const move = async (offset: number) => {
+                rules.splice(index, 1);
+                rules.splice(index + offset, 0, rule);
+                await this.plugin.saveSettings();
+                this.display();
+            };
+            const setting = new Setting(containerEl).setClass('url-namer-site-rule');
+            const errorEl = setting.descEl.createDiv({ cls: 'url-namer-rule-error' });
+            // Invalid rules are kept (so typing isn't interrupted) but skipped when fetching
+            const save = async () => {
+                errorEl.setText(SiteRules.validate(rule) ?? '');
+                await this.plugin.saveSettings();
+            };
+            errorEl.setText(SiteRules.validate(rule) ?? '');
+            setting
+                .setName(`${index + 1}.`)
+                .addDropdown(dropdown => dropdown
+                    .addOption('glob', 'Hostname')
+                    .addOption('regex', 'URL regex')
+                    .setValue(rule.matcherType)
+                    .onChange(async (value: 'glob' | 'regex') => {
+                        rule.matcherType = value;
+                        await save();
+                    }))
+                .addText(text => text
+                    .setPlaceholder(rule.matcherType === 'glob' ? '*.example.com' : 'example\\.com/articles/')
+                    .setValue(rule.matcher)
+                    .onChange(async (value) => {
+                        rule.matcher = value.trim();
+                        await save();
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Title regex')
+                    .setValue(rule.titleRegex)
+                    .onChange(async (value) => {
+                        rule.titleRegex = value;
+                        await save();
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Group')
+                    .setValue(String(rule.group))
+                    .onChange(async (value) => {
+                        const group = parseInt(value, 10);
+                        rule.group = isNaN(group) || group < 0 ? 1 : group;
+                        await save();
+                    })
+                    .then(component => {
+                        component.inputEl.type = 'number';
+                        component.inputEl.addClass('url-namer-group-input');
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('arrow-up')
+                    .setTooltip('Move up')
+                    .setDisabled(index === 0)
+                    .onClick(() => move(-1)))
+                .addExtraButton(button => button
+                    .setIcon('arrow-down')
+                    .setTooltip('Move down')
+                    .setDisabled(index === rules.length - 1)
+                    .onClick(() => move(1)))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete rule')
+                    .onClick(async () => {
+                        rules.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }))
+                .addToggle(toggle => toggle
+                    .setValue(rule.enabled)
+                    .onChange(async (value) => {
+                        rule.enabled = value;
+                        await save();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add rule')
+                .onClick(async () => {
+                    rules.push(SiteRules.create());
+                    await this.plugin.saveSettings();
+                    this.display();
+                }))
+            .addButton(button => button
+                .setButtonText('Import')
+                .setTooltip('Add rules from JSON')
+                .onClick(() => {
+                    new SiteRuleImportModal(this.app, async imported => {
+                        rules.push(...imported);
+                        await this.plugin.saveSettings();
+                        new Notice(`Imported ${imported.length} site rules.`);
+                        this.display();
+                    }).open();
+                }))
+            .addButton(button => button
+                .setButtonText('Export')
+                .setTooltip('Copy the rules as JSON')
+                .onClick(async () => {
+                    await navigator.clipboard.writeText(SiteRules.export(rules));
+                    new Notice(`Copied ${rules.length} site rules to the clipboard.`);
+                }));
+
+        let sampleUrl = '';
+        const testSetting = new Setting(containerEl)
+            .setName('Test site rules')
+            .setDesc('Fetch a page and show which rule matches it and the title it extracts.')
+            .addText(text => text
+                .setPlaceholder('https://arxiv.org/abs/1706.03762')
+                .onChange(value => {
+                    sampleUrl = value.trim();
+                }))
+            .addButton(button => button
+                .setButtonText('Test')
+                .onClick(async () => {
+                    if (!UrlTitleFetcher.isValidUrl(sampleUrl)) {
+                        resultEl.setText('Enter a valid URL.');
+                        return;
+                    }
+                    button.setDisabled(true);
+                    resultEl.setText('Fetching...');
+                    try {
+                        resultEl.setText((await SiteRules.test(sampleUrl, this.plugin.settings)).join('\n'));
+                    } catch (e) {
+                        resultEl.setText(`Failed to fetch the page: ${e instanceof Error ? e.message : String(e)}`);
+                    } finally {
+                        button.setDisabled(false);
+                    }
+                }));
+        const resultEl = testSetting.descEl.createEl('pre', { cls: 'url-namer-test-result' });
+    }
+
+    private displayFallbacks(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setName('Fallback providers')
+            .setDesc('When a site blocks access (e.g., Cloudflare), the enabled providers are asked for the title, in order, until one succeeds.')
+            .setHeading();
+
+        const providers = this.plugin.settings.fallbackProviders;
+        providers.forEach((config, index) => {
+            const provider = FALLBACK_PROVIDERS[config.type];
+            const move = async (offset: number) => {
+                providers.splice(index, 1);
+                providers.splice(index + offset, 0, config);
+                await this.plugin.saveSettings();
+                this.display();
+            };
+            const setting = new Setting(containerEl)
+                .setName(`${index + 1}. ${config.name || provider.name}`)
+                .setDesc(provider.desc)
+                .addExtraButton(button => button
+                    .setIcon('arrow-up')
+                    .setTooltip('Move up')
+                    .setDisabled(index === 0)
+                    .onClick(() => move(-1)))
+                .addExtraButton(button => button
+                    .setIcon('arrow-down')
+                    .setTooltip('Move down')
+                    .setDisabled(index === providers.length - 1)
+                    .onClick(() => move(1)));
+            if (config.type === 'custom') {
+                setting.addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete endpoint')
+                    .onClick(async () => {
+                        providers.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+            }
+            setting.addToggle(toggle => toggle
+                .setValue(config.enabled)
+                .onChange(async (value) => {
+                    config.enabled = value;
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide the provider's options
+                }));
+
+            if (config.enabled && config.type === 'microlink') {
+                new Setting(containerEl)
+                    .setClass('url-namer-provider-option')
+                    .setName('Microlink API key (optional)')
+                    .setDesc('Enter your Microlink API key for higher rate limits. Leave empty to use the free tier (50 requests/day).')
+                    .addText(text => text
+                        .setPlaceholder('Enter API key')
+                        .setValue(this.plugin.settings.microlinkApiKey)
+                        .onChange(async (value) => {
+                            this.plugin.settings.microlinkApiKey = value.trim();
+                            await this.plugin.saveSettings();
+                        })
+                        .then(component => {
+                            component.inputEl.type = 'password';
+                            component.inputEl.addClass('url-namer-api-key-input');
+                        }));
+                this.displayMicrolinkQuota(containerEl);
+            }
+            if (config.enabled && config.type === 'custom') {
+                this.displayCustomEndpoint(containerEl, config);
+            }
+        });
+
+        new Setting(containerEl)
+            .setName('Add custom endpoint')
+            .setDesc('Ask your own scraping service or a local headless browser for titles.')
+            .addButton(button => button
+                .setButtonText('Add endpoint')
+                .onClick(async () => {
+                    providers.push({ type: 'custom', enabled: true, name: '', urlTemplate: '', headers: {}, titlePath: 'title' });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    private displayMicrolinkQuota(containerEl: HTMLElement): void {
+        const settings = this.plugin.settings;
+        new Setting(containerEl)
+            .setClass('url-namer-provider-option')
+            .setName('Daily Microlink budget')
+            .setDesc(`${MicrolinkQuota.describe(settings)} The count resets at midnight UTC.`)
+            .addText(text => text
+                // Empty follows the plan: the free limit without an API key, no limit with one
+                .setPlaceholder(settings.microlinkApiKey.trim() ? 'No limit' : String(MicrolinkQuota.freeDailyLimit))
+                .setValue(settings.microlinkDailyLimit === null ? '' : String(settings.microlinkDailyLimit))
+                .onChange(async (value) => {
+                    const limit = parseInt(value, 10);
+                    settings.microlinkDailyLimit = isNaN(limit) || limit < 0 ? null : limit;
+                    await this.plugin.saveSettings();
+                })
+                .then(component => {
+                    component.inputEl.type = 'number';
+                }))
+            .addExtraButton(button => button
+                .setIcon('rotate-ccw')
+                .setTooltip('Reset today\'s count')
+                .onClick(async () => {
+                    MicrolinkQuota.reset(settings);
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setClass('url-namer-provider-option')
+            .setName('Microlink reserve')
+            .setDesc('Calls kept back from automatic fallbacks. Once only the reserve is left, Microlink is skipped for the rest of the day; "Retry with Microlink" and request profiles can still use it.')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(settings.microlinkReserve))
+                .onChange(async (value) => {
+                    const reserve = parseInt(value, 10);
+                    settings.microlinkReserve = isNaN(reserve) || reserve < 0 ? 0 : reserve;
+                    await this.plugin.saveSettings();
+                })
+                .then(component => {
+                    component.inputEl.type = 'number';
+                }));
+    }
+
+    private displayCustomEndpoint(containerEl: HTMLElement, config: FallbackProviderSetting): void {
+        new Setting(containerEl)
+            .setClass('url-namer-provider-option')
+            .setName('Name')
+            .addText(text => text
+                .setPlaceholder('Custom endpoint')
+                .setValue(config.name ?? '')
+                .onChange(async (value) => {
+                    config.name = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setClass('url-namer-provider-option')
+            .setName('URL template')
+            .setDesc('{url} is replaced with the encoded URL of the page.')
+            .addText(text => text
+                .setPlaceholder('http://localhost:3000/meta?url={url}')
+                .setValue(config.urlTemplate ?? '')
+                .onChange(async (value) => {
+                    config.urlTemplate = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setClass('url-namer-provider-option')
+            .setName('Headers')
+            .setDesc('Optional request headers, one per line as "Name: value".')
+            .addTextArea(text => text
+                .setPlaceholder('Authorization: Bearer …')
+                .setValue(RequestProfiles.formatHeaders(config.headers ?? {}))
+                .onChange(async (value) => {
+                    try {
+                        config.headers = RequestProfiles.parseHeaders(value);
+                        await this.plugin.saveSettings();
+                    } catch (e) {
+                        new Notice(`Invalid header: ${e instanceof Error ? e.message : String(e)}`, 5000);
+                    }
+                })
+                .then(component => {
+                    component.inputEl.rows = 3;
+                    component.inputEl.cols = 40;
+                }));
+
+        new Setting(containerEl)
+            .setClass('url-namer-provider-option')
+            .setName('Title path')
+            .setDesc('Where the title is in the JSON response, e.g. "title" or "data.meta.title". Leave empty if the endpoint returns the title as plain text.')
+            .addText(text => text
+                .setPlaceholder('data.title')
+                .setValue(config.titlePath ?? '')
+                .onChange(async (value) => {
+                    config.titlePath = value.trim();
                     await this.plugin.saveSettings();
-                    this.display(); // Refresh to show/hide API key and priority settings
                 }));
+    }
+
+    private displayRequestProfiles(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setName('Request profiles')
+            .setDesc('Per-domain request settings, e.g. an auth header or cookie for an internal wiki, a specific user agent, or going straight to a fallback. The first profile whose domain matches the hostname (including subdomains) is used for every request to that site.')
+            .setHeading();
+
+        const profiles = this.plugin.settings.requestProfiles;
+        const customProviders = this.plugin.settings.fallbackProviders.filter(p => p.type === 'custom');
+        profiles.forEach((profile, index) => {
+            new Setting(containerEl)
+                .setName('Domain')
+                .addText(text => text
+                    .setPlaceholder('wiki.example.com')
+                    .setValue(profile.domain)
+                    .onChange(async (value) => {
+                        profile.domain = value.trim();
+                        await this.plugin.saveSettings();
+                    }))
+                .addDropdown(dropdown => {
+                    for (const strategy of ['auto', 'direct', 'complex', 'archive', 'microlink'] as RequestStrategy[]) {
+                        dropdown.addOption(strategy, REQUEST_STRATEGY_LABELS[strategy]);
+                    }
+                    // One option per custom endpoint, identified by its name
+                    for (const provider of customProviders) {
+                        dropdown.addOption(`custom:${provider.name ?? ''}`, provider.name || REQUEST_STRATEGY_LABELS.custom);
+                    }
+                    return dropdown
+                        .setValue(profile.strategy === 'custom' ? `custom:${profile.customProvider ?? ''}` : profile.strategy)
+                        .onChange(async (value) => {
+                            if (value.startsWith('custom:')) {
+                                profile.strategy = 'custom';
+                                profile.customProvider = value.substring('custom:'.length);
+                            } else {
+                                profile.strategy = value as RequestStrategy;
+                                delete profile.customProvider;
+                            }
+                            await this.plugin.saveSettings();
+                        });
+                })
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete profile')
+                    .onClick(async () => {
+                        profiles.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+
+            // Headers and cookies often hold credentials, so they are masked like the Microlink key
+            new Setting(containerEl)
+                .setClass('url-namer-provider-option')
+                .setName('Headers')
+                .setDesc('One per line as "Name: value".')
+                .addTextArea(text => text
+                    .setPlaceholder('Authorization: Bearer …')
+                    .setValue(RequestProfiles.formatHeaders(profile.headers))
+                    .onChange(async (value) => {
+                        try {
+                            profile.headers = RequestProfiles.parseHeaders(value);
+                            await this.plugin.saveSettings();
+                        } catch (e) {
+                            new Notice(`Invalid header: ${e instanceof Error ? e.message : String(e)}`, 5000);
+                        }
+                    })
+                    .then(component => {
+                        component.inputEl.rows = 2;
+                        component.inputEl.cols = 40;
+                        component.inputEl.addClass('url-namer-secret');
+                    }));
 
-        if (this.plugin.settings.useMicrolinkFallback) {
             new Setting(containerEl)
-                .setName('Microlink API key (optional)')
-                .setDesc('Enter your Microlink API key for higher rate limits. Leave empty to use the free tier (50 requests/day).')
+                .setClass('url-namer-provider-option')
+                .setName('Cookies')
                 .addText(text => text
-                    .setPlaceholder('Enter API key')
-                    .setValue(this.plugin.settings.microlinkApiKey)
+                    .setPlaceholder('session=…; token=…')
+                    .setValue(profile.cookies)
                     .onChange(async (value) => {
-                        this.plugin.settings.microlinkApiKey = value.trim();
+                        profile.cookies = value.trim();
                         await this.plugin.saveSettings();
                     })
                     .then(component => {
                         component.inputEl.type = 'password';
                         component.inputEl.addClass('url-namer-api-key-input');
                     }));
+
+            new Setting(containerEl)
+                .setClass('url-namer-provider-option')
+                .setName('User agent')
+                .addText(text => text
+                    .setPlaceholder('Default')
+                    .setValue(profile.userAgent)
+                    .onChange(async (value) => {
+                        profile.userAgent = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setClass('url-namer-provider-option')
+                .setName('Accept-Language')
+                .addText(text => text
+                    .setPlaceholder('en-US,en;q=0.5')
+                    .setValue(profile.acceptLanguage)
+                    .onChange(async (value) => {
+                        profile.acceptLanguage = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setClass('url-namer-provider-option')
+                .setName('Timeout (seconds)')
+                .setDesc('Give up on a request after this long. 0 = no timeout.')
+                .addText(text => text
+                    .setPlaceholder('0')
+                    .setValue(String(profile.timeoutSeconds))
+                    .onChange(async (value) => {
+                        const seconds = parseInt(value, 10);
+                        profile.timeoutSeconds = isNaN(seconds) || seconds < 0 ? 0 : seconds;
+                        await this.plugin.saveSettings();
+                    })
+                    .then(component => {
+                        component.inputEl.type = 'number';
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add profile')
+                .onClick(async () => {
+                    profiles.push(RequestProfiles.create());
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    private displayCitations(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setName('Resolve academic links')
+            .setDesc('Name DOI, arXiv and PubMed links (and pages declaring a citation_doi) from their citation metadata instead of the publisher page. Requests go to doi.org and the NCBI API.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.useCitationResolver)
+                .onChange(async (value) => {
+                    this.plugin.settings.useCitationResolver = value;
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide citation format
+                }));
+
+        if (this.plugin.settings.useCitationResolver) {
+            new Setting(containerEl)
+                .setName('Citation format')
+                .setDesc('Link text for academic links. Placeholders: {authors} ("Smith", "Smith & Jones" or "Smith et al."), {year}, {title}, {journal}, {doi}.')
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_SETTINGS.citationTemplate)
+                    .setValue(this.plugin.settings.citationTemplate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.citationTemplate = value || DEFAULT_SETTINGS.citationTemplate;
+                        await this.plugin.saveSettings();
+                    }));
         }
+    }
+
+    private displayTitleCleanup(containerEl: HTMLElement): void {
+        new Setting(containerEl).setName('Title cleanup').setHeading();
+
+        new Setting(containerEl)
+            .setName('Collapse whitespace')
+            .setDesc('Join multi-line titles and replace runs of spaces with a single space.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.collapseWhitespace)
+                .onChange(async (value) => {
+                    this.plugin.settings.collapseWhitespace = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Strip site name suffix')
+            .setDesc('Remove a trailing " | Site" or " - Site" when it matches the page\'s site name or domain, e.g. "Video title - YouTube" → "Video title".')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.stripSiteName)
+                .onChange(async (value) => {
+                    this.plugin.settings.stripSiteName = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Maximum title length')
+            .setDesc('Longer titles are shortened with an ellipsis. 0 keeps titles at full length.')
+            .addSlider(slider => slider
+                .setLimits(0, 300, 10)
+                .setValue(this.plugin.settings.maxTitleLength)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.maxTitleLength = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Find and replace rules')
+            .setDesc('Regular expressions applied to fetched titles, in order. Leave the domain empty to apply a rule to every site. Use $1, $2… in the replacement to insert capture groups.')
+            .addButton(button => button
+                .setButtonText('Add rule')
+                .onClick(async () => {
+                    this.plugin.settings.titleRules.push({ domain: '', find: '', replace: '' });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
 
-        // Show priority setting only when both fallbacks are enabled
-        if (this.plugin.settings.useArchiveFallback && this.plugin.settings.useMicrolinkFallback) {
+        this.plugin.settings.titleRules.forEach((rule, index) => {
             new Setting(containerEl)
-                .setName('Fallback priority order')
-                .setDesc('When both fallbacks are enabled, which should be tried first?')
-                .addDropdown(dropdown => dropdown
-                    .addOption('microlink-first', 'Microlink → Archive.org (recommended: more reliable)')
-                    .addOption('archive-first', 'Archive.org → Microlink (privacy-focused: non-profit first)')
-                    .setValue(this.plugin.settings.fallbackPriority)
-                    .onChange(async (value: 'archive-first' | 'microlink-first') => {
-                        this.plugin.settings.fallbackPriority = value;
+                .setClass('url-namer-title-rule')
+                .addText(text => text
+                    .setPlaceholder('Domain (optional)')
+                    .setValue(rule.domain)
+                    .onChange(async (value) => {
+                        rule.domain = value.trim();
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Find (regex)')
+                    .setValue(rule.find)
+                    .onChange(async (value) => {
+                        try {
+                            new RegExp(value, 'g');
+                            rule.find = value;
+                            await this.plugin.saveSettings();
+                        } catch (e) {
+                            new Notice(`Invalid regex pattern: ${e instanceof Error ? e.message : String(e)}`, 5000);
+                        }
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Replace with')
+                    .setValue(rule.replace)
+                    .onChange(async (value) => {
+                        rule.replace = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete rule')
+                    .onClick(async () => {
+                        this.plugin.settings.titleRules.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        // Runs the whole cleanup pipeline on a sample and lists each step that changed it
+        let sampleUrl = 'https://www.youtube.com/watch?v=example';
+        let sampleTitle = 'Video  title - YouTube';
+        const runTest = () => {
+            const steps: string[] = [];
+            const cleaned = TitleCleaner.clean(sampleUrl, { title: sampleTitle, source: 'direct' }, this.plugin.settings, steps);
+            resultEl.setText([...steps, `Result: ${cleaned.title}`].join('\n'));
+        };
+
+        const testSetting = new Setting(containerEl)
+            .setName('Test cleanup')
+            .setDesc('Sample URL and title to run through the rules above.')
+            .addText(text => text
+                .setPlaceholder('Sample URL')
+                .setValue(sampleUrl)
+                .onChange(value => {
+                    sampleUrl = value.trim();
+                }))
+            .addText(text => text
+                .setPlaceholder('Sample title')
+                .setValue(sampleTitle)
+                .onChange(value => {
+                    sampleTitle = value;
+                }))
+            .addButton(button => button
+                .setButtonText('Test')
+                .onClick(runTest));
+        const resultEl = testSetting.descEl.createEl('pre', { cls: 'url-namer-test-result' });
+    }
+
+    private displayUrlCleanup(containerEl: HTMLElement): void {
+        new Setting(containerEl).setName('URL cleanup').setHeading();
+
+        const listSetting = (name: string, desc: string, placeholder: string, get: () => string[], set: (values: string[]) => void) => {
+            new Setting(containerEl)
+                .setName(name)
+                .setDesc(desc)
+                .addTextArea(text => text
+                    .setPlaceholder(placeholder)
+                    .setValue(get().join('\n'))
+                    .onChange(async (value) => {
+                        set(value.split('\n').map(line => line.trim()).filter(line => line));
                         await this.plugin.saveSettings();
+                    })
+                    .then(component => {
+                        component.inputEl.rows = 6;
+                        component.inputEl.cols = 30;
                     }));
+        };
+
+        new Setting(containerEl)
+            .setName('Remove tracking parameters')
+            .setDesc('Drop tracking query parameters from the URL before the link is written. The URL as pasted stays available as {originalUrl} in the link template.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.stripTrackingParams)
+                .onChange(async (value) => {
+                    this.plugin.settings.stripTrackingParams = value;
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide the parameter list
+                }));
+
+        if (this.plugin.settings.stripTrackingParams) {
+            listSetting('Tracking parameters', 'One parameter name per line. A trailing * matches any suffix, e.g. utm_*.', 'utm_*',
+                () => this.plugin.settings.trackingParams,
+                values => { this.plugin.settings.trackingParams = values; });
+        }
+
+        new Setting(containerEl)
+            .setName('Expand short links')
+            .setDesc('Replace links from URL shorteners with the address they redirect to. On mobile, the page\'s canonical URL is used instead.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.expandShorteners)
+                .onChange(async (value) => {
+                    this.plugin.settings.expandShorteners = value;
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide the shortener list
+                }));
+
+        if (this.plugin.settings.expandShorteners) {
+            listSetting('Shortener domains', 'One domain per line.', 'bit.ly',
+                () => this.plugin.settings.shortenerDomains,
+                values => { this.plugin.settings.shortenerDomains = values; });
+        }
+
+        new Setting(containerEl)
+            .setName('Use canonical URL')
+            .setDesc('Link to the URL the page declares as canonical (<link rel="canonical"> or og:url) instead of the one in the note.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.useCanonicalUrl)
+                .onChange(async (value) => {
+                    this.plugin.settings.useCanonicalUrl = value;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    private displayLinkCard(containerEl: HTMLElement): void {
+        const sample: TitleResult = {
+            title: 'Example Domain',
+            source: 'og',
+            siteName: 'Example',
+            description: 'This domain is for use in illustrative examples in documents.',
+            image: 'https://www.example.com/preview.png',
+            favicon: 'https://www.example.com/favicon.ico'
+        };
+        const sampleUrl = 'https://www.example.com/page';
+        const previewEl = createEl('code', { cls: 'url-namer-template-preview' });
+        let presetDropdown: DropdownComponent;
+        const updatePreview = () => {
+            previewEl.setText(new LinkFormatter(this.plugin.settings).card(sampleUrl, sample));
+        };
+
+        new Setting(containerEl)
+            .setName('Link card template')
+            .setDesc('Used by "Convert URL to link card". Same placeholders as the link template, plus {image} (og:image) and {favicon}. Lines whose placeholders are all empty are left out.')
+            .addDropdown(dropdown => {
+                presetDropdown = dropdown;
+                for (const [template, label] of Object.entries(CARD_TEMPLATE_PRESETS)) {
+                    dropdown.addOption(template, label);
+                }
+                dropdown.addOption('custom', 'Custom');
+                dropdown
+                    .setValue(CARD_TEMPLATE_PRESETS[this.plugin.settings.cardTemplate] ? this.plugin.settings.cardTemplate : 'custom')
+                    .onChange(async (value) => {
+                        if (value === 'custom') {
+                            return;
+                        }
+                        this.plugin.settings.cardTemplate = value;
+                        await this.plugin.saveSettings();
+                        this.display(); // Refresh template field and preview
+                    });
+            })
+            .addTextArea(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.cardTemplate)
+                .setValue(this.plugin.settings.cardTemplate)
+                .onChange(async (value) => {
+                    this.plugin.settings.cardTemplate = value.trim() ? value : DEFAULT_SETTINGS.cardTemplate;
+                    await this.plugin.saveSettings();
+                    presetDropdown.setValue(CARD_TEMPLATE_PRESETS[this.plugin.settings.cardTemplate] ? this.plugin.settings.cardTemplate : 'custom');
+                    updatePreview();
+                })
+                .then(component => {
+                    component.inputEl.rows = 6;
+                    component.inputEl.cols = 50;
+                }));
+
+        const previewSetting = new Setting(containerEl)
+            .setName('Card preview')
+            .setDesc(`Card for ${sampleUrl} with sample metadata.`);
+        previewSetting.controlEl.appendChild(previewEl);
+        updatePreview();
+    }
+
+    private displayLinkFormat(containerEl: HTMLElement): void {
+        const sample: TitleResult = { title: 'Example Domain', source: 'direct', siteName: 'Example' };
+        const sampleUrl = 'https://www.example.com/page';
+        const previewEl = createEl('code', { cls: 'url-namer-template-preview' });
+        let presetDropdown: DropdownComponent;
+        const updatePreview = () => {
+            const formatter = new LinkFormatter(this.plugin.settings);
+            const link = formatter.format(sampleUrl, sample);
+            previewEl.setText([link, ...formatter.definitions].join('\n'));
+        };
+
+        new Setting(containerEl)
+            .setName('Link template')
+            .setDesc('Format of the inserted links. Placeholders: {title}, {url}, {originalUrl}, {domain}, {siteName}, {author}, {published}, {description}, {image}, {favicon}, {date} (or {date:YYYY-MM-DD} with a moment.js format), {source}. Use {ref} for reference-style links; their definitions are added to the end of the note.')
+            .addDropdown(dropdown => {
+                presetDropdown = dropdown;
+                for (const [template, label] of Object.entries(LINK_TEMPLATE_PRESETS)) {
+                    dropdown.addOption(template, label);
+                }
+                dropdown.addOption('custom', 'Custom');
+                dropdown
+                    .setValue(LINK_TEMPLATE_PRESETS[this.plugin.settings.linkTemplate] ? this.plugin.settings.linkTemplate : 'custom')
+                    .onChange(async (value) => {
+                        if (value === 'custom') {
+                            return;
+                        }
+                        this.plugin.settings.linkTemplate = value;
+                        await this.plugin.saveSettings();
+                        this.display(); // Refresh template field and preview
+                    });
+            })
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.linkTemplate)
+                .setValue(this.plugin.settings.linkTemplate)
+                .onChange(async (value) => {
+                    this.plugin.settings.linkTemplate = value || DEFAULT_SETTINGS.linkTemplate;
+                    await this.plugin.saveSettings();
+                    presetDropdown.setValue(LINK_TEMPLATE_PRESETS[this.plugin.settings.linkTemplate] ? this.plugin.settings.linkTemplate : 'custom');
+                    updatePreview();
+                }));
+
+        new Setting(containerEl)
+            .setName('Per-domain link templates')
+            .setDesc('Override the link template for specific sites (including subdomains). Format: one override per line as "domain|template". Example: "youtube.com|▶️ [{title}]({url})"')
+            .addTextArea(text => text
+                .setPlaceholder('youtube.com|▶️ [{title}]({url})')
+                .setValue(this.plugin.settings.domainTemplates
+                    .map(t => `${t.domain}|${t.template}`)
+                    .join('\n'))
+                .onChange(async (value) => {
+                    try {
+                        const templates: DomainTemplate[] = [];
+                        const lines = value.split('\n').filter(line => line.trim());
+
+                        for (const line of lines) {
+                            const separatorIndex = line.indexOf('|');
+                            if (separatorIndex < 1) {
+                                throw new Error(`Invalid format in line: "${line}". Expected format: domain|template`);
+                            }
+                            templates.push({
+                                domain: line.substring(0, separatorIndex).trim(),
+                                template: line.substring(separatorIndex + 1).trim()
+                            });
+                        }
+
+                        this.plugin.settings.domainTemplates = templates;
+                        await this.plugin.saveSettings();
+                    } catch (e) {
+                        new Notice(`Invalid domain template: ${e instanceof Error ? e.message : String(e)}`, 5000);
+                    }
+                })
+                .then(component => {
+                    component.inputEl.rows = 4;
+                    component.inputEl.cols = 50;
+                }));
+
+        const previewSetting = new Setting(containerEl)
+            .setName('Preview')
+            .setDesc(`Link for ${sampleUrl} with the current template.`);
+        previewSetting.controlEl.appendChild(previewEl);
+        updatePreview();
+    }
+}
+
+class MsgModal extends Modal {
+
+    constructor(app: App) {
+        super(app);
+    }
+
+    msg: string;
+
+    showMsg(theMsg: string) {
+        this.msg = theMsg;
+        this.open();
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('url-namer-msg');
+        contentEl.setText(this.msg);
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+}
+
+// Lists the fetched titles so they can be edited or skipped before they are written
+class TitleReviewModal extends Modal {
+
+    private confirmed = false;
+
+    constructor(app: App, private items: ReviewItem[], private onDone: (confirmed: boolean) => void) {
+        super(app);
+    }
+
+    static review(app: App, items: ReviewItem[]): Promise<boolean> {
+        return new Promise(resolve => new TitleReviewModal(app, items, resolve).open());
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('url-namer-review');
+        const retitling = this.items.some(item => item.previous !== undefined);
+        contentEl.createEl('h3', { text: retitling ? 'Review title changes' : 'Review titles' });
+
+        const listEl = contentEl.createDiv({ cls: 'url-namer-review-list' });
+        for (const item of this.items) {
+            let toggleRef: ToggleComponent | undefined;
+            let newTitleEl: HTMLElement | undefined;
+            const setting = new Setting(listEl)
+                .setName(item.url)
+                .setDesc(item.result ? TITLE_SOURCE_LABELS[item.result.source] + (item.result.cached ? ' (cached)' : '') : 'Failed to fetch title — enter one to use it');
+            if (item.previous !== undefined) {
+                const diffEl = setting.descEl.createDiv({ cls: 'url-namer-diff' });
+                diffEl.createEl('del', { text: item.previous || '(empty)' });
+                newTitleEl = diffEl.createEl('ins', { text: item.title });
+            }
+            setting.addText(text => text
+                .setPlaceholder('Title')
+                .setValue(item.title)
+                .onChange(value => {
+                    // Typing a title for a failed URL opts it in
+                    if (!item.title.trim() && value.trim() && !item.approved) {
+                        item.approved = true;
+                        toggleRef?.setValue(true);
+                    }
+                    item.title = value;
+                    newTitleEl?.setText(value);
+                }));
+            setting.addToggle(toggle => {
+                toggleRef = toggle;
+                toggle
+                    .setTooltip('Keep')
+                    .setValue(item.approved)
+                    .onChange(value => {
+                        item.approved = value;
+                    });
+            });
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText(retitling ? 'Apply approved' : 'Insert approved')
+                .setCta()
+                .onClick(() => {
+                    this.confirmed = true;
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.onDone(this.confirmed);
+    }
+
+}
+
+class SiteRuleImportModal extends Modal {
+
+    private json = '';
+
+    constructor(app: App, private onImport: (rules: SitePattern[]) => void) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h3', { text: 'Import site rules' });
+        contentEl.createEl('p', { text: 'Paste rules exported from this plugin. They are added after your current rules.' });
+        new Setting(contentEl)
+            .setClass('url-namer-import')
+            .addTextArea(text => text
+                .setPlaceholder('[{ "matcher": "*.example.com", "matcherType": "glob", "titleRegex": "<h2>(.*?)</h2>", "group": 1, "enabled": true }]')
+                .onChange(value => {
+                    this.json = value;
+                })
+                .then(component => {
+                    component.inputEl.rows = 10;
+                }));
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Import')
+                .setCta()
+                .onClick(() => {
+                    try {
+                        const rules = SiteRules.import(this.json);
+                        this.close();
+                        this.onImport(rules);
+                    } catch (e) {
+                        new Notice(`Invalid site rules: ${e instanceof Error ? e.message : String(e)}`, 5000);
+                    }
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+}
+
+// End-of-run report that lists the URLs that failed, with retry actions.
+// `retry` fetches the given URLs again (through `provider`, if given), writes
+// what it can and returns their new outcomes.
+class RunSummaryModal extends Modal {
+
+    private statusEl: HTMLElement;
+    private listEl: HTMLElement;
+    private actionsEl: HTMLElement;
+
+    constructor(
+        app: App,
+        private heading: string,
+        private outcomes: UrlOutcome[],
+        private summarize: () => string,
+        private settings: UrlNameExtractorSettings,
+        private retry: (indexes: number[], provider?: FallbackProviderSetting) => Promise<UrlOutcome[]>,
+        // Shown above the results, e.g. the Microlink budget projection
+        private warning?: string
+    ) {
+        super(app);
+    }
+
+    // E.g. "12 named (3 via fallbacks), 2 failed, 1 skipped because the text changed"
+    static summarize(outcomes: UrlOutcome[], verb: string): string {
+        const succeeded = outcomes.filter(o => o.status === 'success');
+        const viaFallback = succeeded.filter(o => o.result && Object.prototype.hasOwnProperty.call(FALLBACK_PROVIDERS, o.result.source)).length;
+        const parts = [`${succeeded.length} ${verb}${viaFallback > 0 ? ` (${viaFallback} via fallbacks)` : ''}`];
+        parts.push(`${outcomes.filter(o => o.status === 'failed').length} failed`);
+        const skipped = (reason: UrlSkipReason) => outcomes.filter(o => o.status === 'skipped' && o.reason === reason).length;
+        if (skipped('text-changed') > 0) {
+            parts.push(`${skipped('text-changed')} skipped because the text changed`);
+        }
+        if (skipped('unchanged') > 0) {
+            parts.push(`${skipped('unchanged')} unchanged`);
+        }
+        if (skipped('not-approved') > 0) {
+            parts.push(`${skipped('not-approved')} skipped in review`);
+        }
+        if (skipped('cancelled') > 0) {
+            parts.push(`${skipped('cancelled')} cancelled`);
+        }
+        return parts.join(', ');
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('url-namer-run-summary');
+        contentEl.createEl('h3', { text: this.heading });
+        if (this.warning) {
+            contentEl.createEl('p', { text: this.warning, cls: 'url-namer-quota-warning' });
+        }
+        this.statusEl = contentEl.createEl('p');
+        this.listEl = contentEl.createDiv({ cls: 'url-namer-link-check-list' });
+        this.actionsEl = contentEl.createDiv();
+        this.render();
+    }
+
+    private failedIndexes(): number[] {
+        return this.outcomes.map((o, index) => o.status === 'failed' ? index : -1).filter(index => index >= 0);
+    }
+
+    private render() {
+        this.statusEl.setText(`${this.summarize()}.`);
+        this.listEl.empty();
+        this.actionsEl.empty();
+
+        const failed = this.failedIndexes();
+        for (const index of failed) {
+            const outcome = this.outcomes[index];
+            if (outcome.status === 'failed') {
+                new Setting(this.listEl)
+                    .setName(outcome.url)
+                    .setDesc(`${URL_OUTCOME_REASON_LABELS[outcome.reason]}: ${outcome.error}`);
+            }
+        }
+
+        const actions = new Setting(this.actionsEl);
+        if (failed.length === 0) {
+            actions.addButton(button => button
+                .setButtonText('Close')
+                .setCta()
+                .onClick(() => this.close()));
+            return;
+        }
+        actions.addButton(button => button
+            .setButtonText('Retry failed')
+            .setCta()
+            .onClick(() => this.runRetry()));
+        // Any configured provider, also when it is disabled as a fallback
+        for (const provider of this.settings.fallbackProviders) {
+            if (provider.type === 'custom' && !provider.urlTemplate) {
+                continue;
+            }
+            // Microlink shows what's left of today's budget
+            const quota = provider.type === 'microlink' && MicrolinkQuota.limit(this.settings) > 0
+                ? ` (${MicrolinkQuota.remaining(this.settings)} left today)`
+                : '';
+            actions.addButton(button => button
+                .setButtonText(`Retry with ${provider.name || FALLBACK_PROVIDERS[provider.type].name}${quota}`)
+                .onClick(() => this.runRetry(provider)));
+        }
+        actions.addButton(button => button
+            .setButtonText('Leave as-is')
+            .onClick(() => this.close()));
+    }
+
+    private async runRetry(provider?: FallbackProviderSetting) {
+        const indexes = this.failedIndexes();
+        this.actionsEl.querySelectorAll('button').forEach(button => button.disabled = true);
+        this.statusEl.setText(`Retrying ${indexes.length} URLs...`);
+        try {
+            const outcomes = await this.retry(indexes, provider);
+            indexes.forEach((index, i) => {
+                this.outcomes[index] = outcomes[i];
+            });
+        } catch (e) {
+            new Notice(`Retry failed: ${e instanceof Error ? e.message : String(e)}`, 5000);
+        }
+        this.render();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+}
+
+class ConfirmModal extends Modal {
+
+    constructor(app: App, private message: string, private onConfirm: () => void) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('p', { text: this.message });
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Continue')
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    this.onConfirm();
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+}
+
+class DomainSuggestModal extends FuzzySuggestModal<{ domain: string, count: number }> {
+
+    constructor(app: App, private domains: Array<{ domain: string, count: number }>, private onChoose: (domain: string) => void) {
+        super(app);
+        this.setPlaceholder('Choose a domain to clear from the cache');
+    }
+
+    getItems() {
+        return this.domains;
+    }
+
+    getItemText(item: { domain: string, count: number }): string {
+        return `${item.domain} (${item.count})`;
+    }
+
+    onChooseItem(item: { domain: string, count: number }): void {
+        this.onChoose(item.domain);
+    }
+
+}
+
+class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+
+    constructor(app: App, private onChoose: (folder: TFolder) => void) {
+        super(app);
+        this.setPlaceholder('Choose a folder to process');
+    }
+
+    getItems(): TFolder[] {
+        return this.app.vault.getAllLoadedFiles()
+            .filter((f): f is TFolder => f instanceof TFolder);
+    }
+
+    getItemText(folder: TFolder): string {
+        return folder.isRoot() ? '/' : folder.path;
+    }
+
+    onChooseItem(folder: TFolder): void {
+        this.onChoose(folder);
+    }
+
+}
+
+// Progress view for bulk runs. Keeps collecting results when closed, so the
+// run can continue in the background and the final Notice still reports it.
+class BulkProgressModal extends Modal {
+
+    private statusEl: HTMLElement;
+    private listEl: HTMLElement;
+    private processed = 0;
+
+    constructor(app: App, private label: string, private total: number) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('url-namer-progress');
+        contentEl.createEl('h3', { text: `Naming URLs in ${this.label}` });
+        this.statusEl = contentEl.createEl('p');
+        this.listEl = contentEl.createEl('ul', { cls: 'url-namer-progress-list' });
+        this.updateStatus(`Processing ${this.total} notes...`);
+    }
+
+    startFile(path: string) {
+        this.updateStatus(`${this.processed + 1} / ${this.total}: ${path}`);
+    }
+
+    addResult(result: BulkFileResult) {
+        this.processed++;
+        if (result.status === 'unchanged' && result.urlCount === 0) {
+            return;
+        }
+        let text: string;
+        switch (result.status) {
+            case 'error':
+                text = `error: ${result.error ?? 'unknown'}`;
+                break;
+            case 'modified':
+                text = 'skipped (note changed during run)';
+                break;
+            default:
+                text = `${result.urlCount} URLs: ${result.successCount} named, ${result.failureCount} failed`;
+        }
+        this.listEl?.createEl('li', { text: `${result.path} — ${text}` });
+    }
+
+    finish(summary: BulkSummary) {
+        this.updateStatus(`Done. ${summary.fileCount} notes checked, ${summary.changedCount} updated. ` +
+            `${summary.urlCount} URLs found: ${summary.successCount} named, ${summary.failureCount} failed.`);
+        if (this.listEl && !this.listEl.hasChildNodes()) {
+            this.listEl.createEl('li', { text: 'No raw URLs found.' });
+        }
+    }
+
+    private updateStatus(text: string) {
+        this.statusEl?.setText(text);
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+}
+
+// Results view of a link check. The check starts when the view opens and
+// stops (for requests not yet sent) when it is closed.
+class LinkCheckModal extends Modal {
+
+    static readonly statusLabels: Record<LinkStatus, string> = {
+        'ok': '✅ OK',
+        'redirected': '↪️ Redirected',
+        'dead': '❌ Dead',
+        'blocked': '⚠️ Blocked',
+        'error': '⚠️ Error'
+    };
+
+    private controller = new AbortController();
+    private statusEl: HTMLElement;
+    private listEl: HTMLElement;
+    private problemsOnly = true;
+    private results: LinkCheckResult[] = [];
+
+    constructor(app: App, private files: TFile[], private label: string, private settings: UrlNameExtractorSettings) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('url-namer-link-check');
+        contentEl.createEl('h3', { text: `Checking links in ${this.label}` });
+        this.statusEl = contentEl.createEl('p', { text: 'Collecting links...' });
+        new Setting(contentEl)
+            .setName('Show only problems')
+            .addToggle(toggle => toggle
+                .setValue(this.problemsOnly)
+                .onChange(value => {
+                    this.problemsOnly = value;
+                    this.render();
+                }));
+        this.listEl = contentEl.createDiv({ cls: 'url-namer-link-check-list' });
+
+        LinkChecker.checkFiles(this.app, this.files, this.settings, this.controller.signal, (result, done, total) => {
+            this.results.push(result);
+            this.statusEl.setText(`Checked ${done} / ${total} links...`);
+            this.addRow(result);
+        }).then(results => {
+            const count = (status: LinkStatus) => results.filter(r => r.status === status).length;
+            this.statusEl.setText(`Done. ${results.length} links checked: ${count('ok')} OK, ${count('redirected')} redirected, ` +
+                `${count('dead')} dead, ${count('blocked') + count('error')} blocked or failed.`);
+            if (this.problemsOnly && !this.listEl.hasChildNodes()) {
+                this.listEl.createEl('p', { text: 'No problems found.' });
+            }
+        }).catch(e => {
+            if (!(e instanceof RunCancelledError)) {
+                this.statusEl.setText(`Link check failed: ${e instanceof Error ? e.message : String(e)}`);
+            }
+        });
+    }
+
+    private render() {
+        this.listEl.empty();
+        this.results.forEach(result => this.addRow(result));
+    }
+
+    private addRow(result: LinkCheckResult) {
+        if (this.problemsOnly && result.status === 'ok') {
+            return;
+        }
+        const setting = new Setting(this.listEl).setName(result.url);
+        const details = [LinkCheckModal.statusLabels[result.status] + (result.code !== null ? ` (${result.code})` : '')];
+        if (result.error) {
+            details.push(result.error);
+        }
+        if (result.redirects.length > 0) {
+            details.push([...result.redirects.map(hop => `${hop.url} (${hop.status})`), result.finalUrl].join(' → '));
+        }
+        if (this.files.length > 1) {
+            details.push(`In: ${result.files.map(f => f.path).join(', ')}`);
+        }
+        if (result.status === 'dead') {
+            details.push(result.archivedUrl ? `Archived: ${result.archivedUrl}` : 'No archived copy found');
+        }
+        setting.setDesc(details.join('\n'));
+
+        if (result.status === 'dead' && result.archivedUrl) {
+            const rewrite = async (mode: 'replace' | 'append') => {
+                const count = await LinkChecker.rewrite(this.app, result, mode, this.settings);
+                setting.setDesc(`${mode === 'replace' ? 'Replaced with the archived URL' : 'Archived link added'} in ${count} places.`);
+                setting.controlEl.empty();
+            };
+            setting
+                .addButton(button => button
+                    .setButtonText('Use archived URL')
+                    .setTooltip('Replace the link with its Wayback Machine snapshot')
+                    .onClick(() => rewrite('replace')))
+                .addButton(button => button
+                    .setButtonText('Add archived link')
+                    .setTooltip('Keep the link and add "(archived)" next to it')
+                    .onClick(() => rewrite('append')));
+        }
+    }
+
+    onClose() {
+        this.controller.abort();
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+}
+
+// Sidebar list of recent title lookups with the steps each one went through
+class DiagnosticsView extends ItemView {
+
+    static readonly outcomeLabels: Record<TraceOutcome, string> = {
+        'pending': '⏳ Fetching',
+        'success': '✅ Success',
+        'failed': '❌ Failed',
+        'cancelled': '⏹️ Cancelled'
+    };
+
+    private listEl: HTMLElement;
+    private filterText = '';
+    private outcomeFilter: TraceOutcome | 'all' = 'all';
+    // Traces stay expanded across re-renders
+    private expanded = new Set<number>();
+    private unsubscribe: (() => void) | null = null;
+    // Runs can add many steps per second
+    private requestRender = debounce(() => this.render(), 250);
+
+    constructor(leaf: WorkspaceLeaf, private plugin: UrlNamer) {
+        super(leaf);
+    }
+
+    getViewType() {
+        return DIAGNOSTICS_VIEW_TYPE;
+    }
+
+    getDisplayText() {
+        return 'URL fetch diagnostics';
+    }
+
+    getIcon() {
+        return 'activity';
+    }
+
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('url-namer-diagnostics');
+        new Setting(contentEl)
+            .addSearch(search => search
+                .setPlaceholder('Filter by URL, title or error')
+                .onChange(value => {
+                    this.filterText = value.trim().toLowerCase();
+                    this.render();
+                }))
+            .addDropdown(dropdown => {
+                dropdown.addOption('all', 'All');
+                for (const [outcome, label] of Object.entries(DiagnosticsView.outcomeLabels)) {
+                    dropdown.addOption(outcome, label);
+                }
+                return dropdown
+                    .setValue(this.outcomeFilter)
+                    .onChange((value: TraceOutcome | 'all') => {
+                        this.outcomeFilter = value;
+                        this.render();
+                    });
+            })
+            .addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Clear traces')
+                .onClick(() => FetchDiagnostics.clear()));
+        this.listEl = contentEl.createDiv({ cls: 'url-namer-trace-list' });
+        this.unsubscribe = FetchDiagnostics.subscribe(() => this.requestRender());
+        this.render();
+    }
+
+    async onClose() {
+        this.unsubscribe?.();
+        this.requestRender.cancel();
+    }
+
+    private matches(trace: FetchTrace): boolean {
+        if (this.outcomeFilter !== 'all' && trace.outcome !== this.outcomeFilter) {
+            return false;
+        }
+        return !this.filterText || [trace.url, trace.title, trace.error]
+            .some(text => text?.toLowerCase().includes(this.filterText));
+    }
+
+    private render() {
+        const scrollTop = this.contentEl.scrollTop;
+        this.listEl.empty();
+        const traces = FetchDiagnostics.traces.filter(trace => this.matches(trace));
+        if (traces.length === 0) {
+            this.listEl.createEl('p', {
+                cls: 'url-namer-trace-empty',
+                text: FetchDiagnostics.traces.length > 0 ? 'No traces match the filter.' : 'Every title fetched from now on is traced here.'
+            });
+        }
+        traces.forEach(trace => this.renderTrace(trace));
+        this.contentEl.scrollTop = scrollTop;
+    }
+
+    private renderTrace(trace: FetchTrace) {
+        const details = this.listEl.createEl('details', { cls: `url-namer-trace url-namer-trace-${trace.outcome}` });
+        details.open = this.expanded.has(trace.id);
+        details.addEventListener('toggle', () => {
+            if (details.open) {
+                this.expanded.add(trace.id);
+            } else {
+                this.expanded.delete(trace.id);
+            }
+        });
+
+        const summary = details.createEl('summary');
+        summary.createDiv({ cls: 'url-namer-trace-url', text: trace.url });
+        const result = trace.outcome === 'success' ? `"${trace.title ?? ''}" (${trace.source ? TITLE_SOURCE_LABELS[trace.source] : ''})` : trace.error ?? '';
+        const duration = trace.durationMs !== undefined ? ` · ${trace.durationMs} ms` : '';
+        summary.createDiv({
+            cls: 'url-namer-trace-result',
+            text: `${DiagnosticsView.outcomeLabels[trace.outcome]} · ${moment(trace.startedAt).format('HH:mm:ss')}${duration}${result ? ` · ${result}` : ''}`
+        });
+
+        const table = details.createEl('table', { cls: 'url-namer-trace-steps' });
+        const head = table.createEl('tr');
+        for (const label of ['Step', 'Status', 'Time', 'Detail']) {
+            head.createEl('th', { text: label });
+        }
+        for (const step of trace.steps) {
+            const row = table.createEl('tr', { cls: `url-namer-trace-step-${step.outcome}` });
+            row.createEl('td', { text: step.step });
+            row.createEl('td', { text: step.status !== undefined ? String(step.status) : '' });
+            row.createEl('td', { text: step.durationMs !== undefined ? `${step.durationMs} ms` : '' });
+            row.createEl('td', { text: step.detail ?? '' });
+        }
+
+        const actions = details.createDiv({ cls: 'url-namer-trace-actions' });
+        new ButtonComponent(actions)
+            .setButtonText('Retry this URL')
+            .setDisabled(trace.outcome === 'pending')
+            .onClick(() => this.retry(trace));
+        new ButtonComponent(actions)
+            .setButtonText('Copy trace as JSON')
+            .onClick(async () => {
+                await navigator.clipboard.writeText(JSON.stringify(trace, null, 2));
+                new Notice('Trace copied to the clipboard.');
+            });
+    }
+
+    // Fetches the URL again, bypassing the title cache; the new trace opens at the top
+    private retry(trace: FetchTrace) {
+        UrlTitleFetcher.cache?.delete(trace.url);
+        UrlTitleFetcher.lookup(trace.url, this.plugin.settings)
+            .then(result => new Notice(`Fetched "${result.title}"`))
+            .catch(e => new Notice(`Retry failed: ${e instanceof Error ? e.message : String(e)}`, 5000));
+        this.expanded.add(FetchDiagnostics.traces[0].id);
+    }
+
+}
+
+class UrlTagger {
+
+    // Failed URLs are in the result; nothing is reported with notices. Throws if the URL regex is invalid.
+    static async tagText(selectedText: string, settings: UrlNameExtractorSettings): Promise<TaggingResult> {
+        const unchanged: TaggingResult = { text: selectedText, definitions: [], urlCount: 0, successCount: 0, failureCount: 0, outcomes: [] };
+
+        const matches = this.findUrls(selectedText, settings);
+
+        if (matches.length === 0) {
+            return unchanged;
+        }
+
+        const { results, outcomes } = await this.fetchTitles(matches.map(m => m.url), settings);
+        const successCount = results.filter(r => r !== null).length;
+        const failureCount = results.length - successCount;
+
+        const items = this.toReviewItems(matches, results);
+
+        // Replace URLs with their named versions
+        // Important: Can't use simple replace() because it only replaces first occurrence
+        // and URLs might share prefixes (e.g., example.com/ and example.com/page)
+        // Instead, use the original match positions and replace in reverse order
+        // Links are formatted in document order so reference ids increase down the note
+        const formatter = new LinkFormatter(settings, selectedText);
+        const links = items.map(item => this.formatItem(item, formatter));
+
+        let result = selectedText;
+        for (let i = matches.length - 1; i >= 0; i--) {
+            const { start, end } = matches[i];
+            const link = links[i];
+            if (link !== null) {
+                result = result.substring(0, start) + link + result.substring(end);
+            }
+        }
+
+        return {
+            text: result,
+            definitions: formatter.definitions,
+            urlCount: matches.length,
+            successCount,
+            failureCount,
+            outcomes
+        };
+    }
+
+    // Finds the URLs whose markdown context should be converted; throws if the URL regex is invalid
+    static findUrls(text: string, settings: UrlNameExtractorSettings): UrlMatch[] {
+        let urlPattern: RegExp;
+        try {
+            urlPattern = new RegExp(settings.urlRegex, 'gim');
+        } catch (e) {
+            throw new Error(`Invalid URL regex pattern in settings: ${e instanceof Error ? e.message : String(e)}`);
+        }
+
+        return UrlScanner.scan(text, urlPattern)
+            .filter(m => m.context === 'bare' || settings.convertContexts.includes(m.context as ConvertibleContext));
+    }
+
+    // Fetch all URLs at once; RequestScheduler limits concurrency and spaces
+    // out requests to the same host. Repeated URLs share one fetch. Results
+    // are in the order of `urls`; `onResult` is called as each one arrives.
+    // After the signal aborts, URLs that haven't been requested yet resolve
+    // to null and are counted in `cancelledCount`. `outcomes` says why each
+    // URL without a result failed or was skipped.
+    static async fetchTitles(
+        urls: string[],
+        settings: UrlNameExtractorSettings,
+        signal?: AbortSignal,
+        onResult?: (index: number, result: TitleResult | null) => void,
+        options: TaggingOptions = {}
+    ): Promise<{ results: Array<TitleResult | null>, outcomes: UrlOutcome[], cancelledCount: number }> {
+        const pending: Record<string, Promise<UrlOutcome>> = {};
+        const outcomes = await Promise.all(urls.map((url, index) => {
+            if (!pending[url]) {
+                pending[url] = UrlTitleFetcher.lookup(url, settings, signal, options.provider).then(
+                    (result): UrlOutcome => ({ url, status: 'success', result }),
+                    (error): UrlOutcome => {
+                        if (error instanceof RunCancelledError) {
+                            return { url, status: 'skipped', result: null, reason: 'cancelled' };
+                        }
+                        // On error, keep the original URL
+                        const errorMsg = error instanceof Error ? error.message : String(error);
+                        return { url, status: 'failed', result: null, reason: UrlTitleFetcher.failureReason(error), error: errorMsg };
+                    });
+            }
+            return pending[url].then(outcome => {
+                if (outcome.status !== 'skipped') {
+                    onResult?.(index, outcome.result);
+                }
+                // Repeated URLs share the fetch, but not the outcome object
+                return { ...outcome };
+            });
+        }));
+
+        return {
+            results: outcomes.map(o => o.result),
+            outcomes,
+            cancelledCount: outcomes.filter(o => o.status === 'skipped').length
+        };
+    }
+
+    static toReviewItems(matches: UrlMatch[], results: Array<TitleResult | null>): ReviewItem[] {
+        return matches.map((m, i) => ({
+            url: m.url,
+            title: results[i]?.title ?? '',
+            result: results[i] ?? undefined,
+            approved: results[i] !== null
+        }));
+    }
+
+    // The link (or link card) for an approved item with a title, otherwise null
+    static formatItem(item: ReviewItem, formatter: LinkFormatter, output: EditorOutput = 'link'): string | null {
+        const title = item.title.trim();
+        if (!item.approved || !title) {
+            return null;
+        }
+        const result: TitleResult = { ...(item.result ?? { source: 'direct' }), title };
+        return output === 'card' ? formatter.card(item.url, result) : formatter.format(item.url, result);
+    }
+
+}
+
+// Names the URLs of the editor selection in place while the user keeps
+// working. Each URL's position is recorded up front and every link is
+// written as soon as its title arrives; an edit is skipped if the text at
+// the recorded position is no longer the URL.
+class EditorTagger {
+
+    static async run(app: App, editor: Editor, view: MarkdownView, settings: UrlNameExtractorSettings, output: EditorOutput = 'link') {
+        let selection = editor.getSelection();
+        let selectionStart = editor.posToOffset(editor.getCursor('from'));
+
+        // Without a selection, cards are made for the URL under the cursor
+        const atCursor = output === 'card' && selection === '';
+        const cursor = selectionStart;
+        if (atCursor) {
+            selection = editor.getValue();
+            selectionStart = 0;
+        }
+
+        let matches = UrlTagger.findUrls(selection, settings);
+        if (atCursor) {
+            matches = matches.filter(m => m.start <= cursor && cursor <= m.end);
+        }
+        if (matches.length === 0) {
+            new Notice(atCursor ? 'No raw URL at the cursor.' : 'No raw URLs found to process.');
+            return;
+        }
+
+        const targets = matches.map(m => ({
+            start: selectionStart + m.start,
+            end: selectionStart + m.end,
+            text: selection.substring(m.start, m.end)
+        }));
+        const formatter = new LinkFormatter(settings, editor.getValue());
+        const patcher = new EditorPatcher(editor, view, targets);
+        const controller = new AbortController();
+        const progress = new RunProgressNotice(matches.length, () => controller.abort());
+        const warning = MicrolinkQuota.projectionWarning(matches.map(m => m.url), settings);
+
+        // Links that couldn't be written because the text changed
+        const skipped = new Set<number>();
+        const write = (index: number, item: ReviewItem) => {
+            const link = UrlTagger.formatItem(item, formatter, output);
+            if (link !== null && !patcher.apply(index, link, output === 'card')) {
+                skipped.add(index);
+            }
+        };
+        // Reference definitions are appended after each pass
+        let definitionCount = 0;
+        const writeDefinitions = () => {
+            const added = formatter.definitions.slice(definitionCount);
+            if (added.length > 0 && patcher.isOpen()) {
+                const doc = editor.getValue();
+                const { from, insert } = LinkFormatter.definitionsEdit(doc, added);
+                editor.replaceRange(insert, editor.offsetToPos(from), editor.offsetToPos(doc.length));
+                definitionCount = formatter.definitions.length;
+            }
+        };
+
+        const review = settings.reviewBeforeInsert;
+        let done = 0;
+        const { results, outcomes } = await UrlTagger.fetchTitles(
+            matches.map(m => m.url),
+            settings,
+            controller.signal,
+            (index, result) => {
+                done++;
+                progress.update(done);
+                if (result && !review) {
+                    write(index, { url: matches[index].url, title: result.title, result, approved: true });
+                }
+            }
+        );
+        progress.hide();
+
+        if (review) {
+            const items = UrlTagger.toReviewItems(matches, results);
+            if (!(await TitleReviewModal.review(app, items))) {
+                return;
+            }
+            items.forEach((item, index) => {
+                const outcome = outcomes[index];
+                if (!item.approved || !item.title.trim()) {
+                    if (outcome.status === 'success') {
+                        outcomes[index] = { url: outcome.url, status: 'skipped', result: null, reason: 'not-approved' };
+                    }
+                    return;
+                }
+                write(index, item);
+                // A title typed for a failed URL counts as named
+                if (outcome.status === 'failed') {
+                    outcomes[index] = { url: outcome.url, status: 'success', result: { ...(item.result ?? { source: 'direct' }), title: item.title.trim() } };
+                }
+            });
+        }
+        writeDefinitions();
+
+        skipped.forEach(index => {
+            outcomes[index] = { url: matches[index].url, status: 'skipped', result: null, reason: 'text-changed' };
+        });
+
+        const summarize = () => RunSummaryModal.summarize(outcomes, 'named');
+        if (!outcomes.some(o => o.status === 'failed')) {
+            new Notice(`Processed ${matches.length} URLs: ${summarize()}.${warning ? `\n${warning}` : ''}`);
+            return;
+        }
+        new RunSummaryModal(app, `Processed ${matches.length} URLs`, outcomes, summarize, settings, async (indexes, provider) => {
+            const retried = await UrlTagger.fetchTitles(indexes.map(i => matches[i].url), settings, undefined, (i, result) => {
+                if (result) {
+                    write(indexes[i], { url: matches[indexes[i]].url, title: result.title, result, approved: true });
+                }
+            }, { provider });
+            writeDefinitions();
+            return retried.outcomes.map((outcome, i) => skipped.has(indexes[i])
+                ? { url: outcome.url, status: 'skipped', result: null, reason: 'text-changed' }
+                : outcome);
+        }, warning).open();
+    }
+
+}
+
+// Gives existing [text](url) links fresh titles. Repair mode only touches
+// links whose text is missing, the URL itself, a placeholder or the title of
+// an error page; refresh mode fetches every link and shows the changes as a
+// diff before applying them. Only the link text is replaced.
+class LinkRepairer {
+
+    static readonly placeholderTexts = ['link', 'here', 'click here', 'this', 'this link', 'url', 'source', 'website', 'page', 'untitled', 'title', 'read more', 'more'];
+
+    // Titles of bot challenges, error and loading pages (compared without trailing dots)
+    static readonly errorTitles = [
+        'just a moment', 'attention required! | cloudflare', 'attention required', 'please wait', 'one moment, please',
+        'checking your browser', 'security check', 'verify you are human', 'are you a robot?', 'robot check',
+        'bot verification', 'ddos-guard', 'access denied', 'forbidden', '403 forbidden', 'not found', '404 not found',
+        'page not found', 'too many requests', '429 too many requests', 'error', 'loading', 'redirecting'
+    ];
+
+    static needsTitle(link: MarkdownLink): boolean {
+        const text = link.text.trim().toLowerCase().replace(/[.…]+$/, '');
+        const bareUrl = (url: string) => url.trim().toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/\/$/, '');
+        return text === ''
+            || bareUrl(link.text) === bareUrl(link.url)
+            || /^https?:\/\/\S+$/i.test(link.text.trim())
+            || this.placeholderTexts.includes(text)
+            || this.errorTitles.includes(text);
+    }
+
+    // Backslash-escapes brackets that would end the link text early
+    static escapeText(title: string): string {
+        return title.replace(/([[\]])/g, '\\$1');
+    }
+
+    static async run(app: App, editor: Editor, view: MarkdownView, settings: UrlNameExtractorSettings, mode: 'repair' | 'refresh') {
+        // The selection, or the whole note when nothing is selected
+        const selection = editor.getSelection();
+        const scope = selection || editor.getValue();
+        const scopeStart = selection ? editor.posToOffset(editor.getCursor('from')) : 0;
+
+        const links = UrlScanner.scanLinks(scope)
+            .filter(link => /^https?:\/\//i.test(link.url) && (mode === 'refresh' || this.needsTitle(link)));
+        if (links.length === 0) {
+            new Notice(mode === 'refresh' ? 'No links found to refresh.' : 'No links with missing or placeholder titles found.');
+            return;
+        }
+
+        if (mode === 'refresh') {
+            for (const link of links) {
+                UrlTitleFetcher.cache?.delete(link.url);
+            }
+        }
+
+        const patcher = new EditorPatcher(editor, view, links.map(link => ({
+            start: scopeStart + link.textStart,
+            end: scopeStart + link.textEnd,
+            text: link.text
+        })));
+        const controller = new AbortController();
+        const progress = new RunProgressNotice(links.length, () => controller.abort());
+        const warning = MicrolinkQuota.projectionWarning(links.map(link => link.url), settings);
+        // Links that couldn't be written because the text changed
+        const skipped = new Set<number>();
+        const write = (index: number, title: string) => {
+            if (!patcher.apply(index, this.escapeText(title))) {
+                skipped.add(index);
+            }
+        };
+
+        const review = mode === 'refresh' || settings.reviewBeforeInsert;
+        let done = 0;
+        const { results, outcomes } = await UrlTagger.fetchTitles(
+            links.map(link => link.url),
+            settings,
+            controller.signal,
+            (index, result) => {
+                done++;
+                progress.update(done);
+                if (result && !review) {
+                    write(index, result.title);
+                }
+            }
+        );
+        progress.hide();
+
+        if (review) {
+            const items: ReviewItem[] = [];
+            const indexes: number[] = [];
+            links.forEach((link, index) => {
+                const result = results[index];
+                if (!result) {
+                    return;
+                }
+                if (this.escapeText(result.title) === link.text) {
+                    outcomes[index] = { url: link.url, status: 'skipped', result: null, reason: 'unchanged' };
+                    return;
+                }
+                items.push({ url: link.url, title: result.title, result, approved: true, previous: link.text });
+                indexes.push(index);
+            });
+            if (items.length > 0) {
+                if (!(await TitleReviewModal.review(app, items))) {
+                    return;
+                }
+                items.forEach((item, i) => {
+                    if (item.approved && item.title.trim()) {
+                        write(indexes[i], item.title.trim());
+                    } else {
+                        outcomes[indexes[i]] = { url: item.url, status: 'skipped', result: null, reason: 'not-approved' };
+                    }
+                });
+            }
+        }
+
+        skipped.forEach(index => {
+            outcomes[index] = { url: links[index].url, status: 'skipped', result: null, reason: 'text-changed' };
+        });
+
+        const summarize = () => RunSummaryModal.summarize(outcomes, 'updated');
+        if (!outcomes.some(o => o.status === 'failed')) {
+            new Notice(`Processed ${links.length} links: ${summarize()}.${warning ? `\n${warning}` : ''}`);
+            return;
+        }
+        new RunSummaryModal(app, `Processed ${links.length} links`, outcomes, summarize, settings, async (indexes, provider) => {
+            const retried = await UrlTagger.fetchTitles(indexes.map(i => links[i].url), settings, undefined, (i, result) => {
+                if (result) {
+                    write(indexes[i], result.title);
+                }
+            }, { provider });
+            return retried.outcomes.map((outcome, i) => skipped.has(indexes[i])
+                ? { url: outcome.url, status: 'skipped', result: null, reason: 'text-changed' }
+                : outcome);
+        }, warning).open();
+    }
+
+}
+
+// Names the URLs of pasted text. The text is inserted right away with a
+// placeholder link for each URL; every placeholder is then replaced with the
+// titled link, or the plain URL if the title can't be fetched. A placeholder
+// the user edited in the meantime is left alone.
+class PasteTagger {
+
+    static readonly placeholderTitle = 'Fetching title…';
+
+    static handle(evt: ClipboardEvent, editor: Editor, info: MarkdownView | MarkdownFileInfo, settings: UrlNameExtractorSettings) {
+        const text = evt.clipboardData?.getData('text/plain') ?? '';
+        const trimmed = text.trim();
+        if (!trimmed) {
+            return;
+        }
+        // Pasting a URL over a selection is left to Obsidian, which links the selected text
+        if (editor.somethingSelected() && /^https?:\/\/\S+$/i.test(trimmed)) {
+            return;
+        }
+
+        // Nothing to name when pasting into code or into an existing link
+        const from = editor.posToOffset(editor.getCursor('from'));
+        const doc = editor.getValue();
+        if (UrlScanner.contextAt(doc.substring(0, from) + doc.substring(editor.posToOffset(editor.getCursor('to'))), from) !== 'bare') {
+            return;
+        }
+
+        let found: UrlMatch[];
+        try {
+            found = UrlTagger.findUrls(text, settings);
+        } catch (e) {
+            // Let the paste through unchanged
+            new Notice(e instanceof Error ? e.message : String(e), 5000);
+            return;
+        }
+        const matches = found.filter(m => {
+            try {
+                const hostname = new URL(m.url).hostname;
+                return !settings.pasteDenylist.some(domain => hostMatchesDomain(hostname, domain));
+            } catch {
+                return false;
+            }
+        });
+        if (matches.length === 0) {
+            return;
+        }
+        evt.preventDefault();
+
+        // Build the inserted text and the document range of each placeholder
+        let inserted = '';
+        let last = 0;
+        const targets = matches.map(m => {
+            inserted += text.substring(last, m.start);
+            const placeholder = `[${this.placeholderTitle}](${m.url})`;
+            const target = { start: from + inserted.length, end: from + inserted.length + placeholder.length, text: placeholder };
+            inserted += placeholder;
+            last = m.end;
+            return target;
+        });
+        inserted += text.substring(last);
+        editor.replaceSelection(inserted);
+
+        const patcher = new EditorPatcher(editor, info, targets);
+        const formatter = new LinkFormatter(settings, doc);
+        UrlTagger.fetchTitles(matches.map(m => m.url), settings, undefined, (index, result) => {
+            const link = result ? formatter.format(matches[index].url, result) : null;
+            // Fall back to the URL as it was pasted
+            patcher.apply(index, link ?? text.substring(matches[index].start, matches[index].end));
+        }).then(({ outcomes }) => {
+            if (formatter.definitions.length > 0 && patcher.isOpen()) {
+                const current = editor.getValue();
+                const { from: defsFrom, insert } = LinkFormatter.definitionsEdit(current, formatter.definitions);
+                editor.replaceRange(insert, editor.offsetToPos(defsFrom), editor.offsetToPos(current.length));
+            }
+            // One notice for the whole paste; the diagnostics view has the details
+            const failed = outcomes.filter(o => o.status === 'failed').length;
+            if (failed > 0) {
+                new Notice(`Could not name ${failed} of ${outcomes.length} pasted URLs; they were pasted as is.`);
+            }
+        }).catch(e => console.error('Failed to name pasted URLs:', e));
+    }
+
+}
+
+// Where a link from an obsidian:// URI goes
+type UriMode = 'append' | 'cursor' | 'daily' | 'clipboard';
+
+// The daily notes core plugin's settings
+interface DailyNoteOptions {
+    folder?: string;
+    format?: string;
+    template?: string;
+}
+
+// Names and inserts links from outside the app (browser bookmarklets, iOS
+// Shortcuts, scripts):
+// obsidian://url-name-extractor?url=…&mode=append|cursor|daily|clipboard&file=…&heading=…&template=…
+class UriHandler {
+
+    static readonly action = 'url-name-extractor';
+
+    static async handle(app: App, params: ObsidianProtocolData, settings: UrlNameExtractorSettings): Promise<void> {
+        const url = params.url?.trim();
+        if (!url) {
+            throw new Error('The URI needs a url parameter.');
+        }
+        const mode = (params.mode || (params.file ? 'append' : 'cursor')) as UriMode;
+        if (!['append', 'cursor', 'daily', 'clipboard'].includes(mode)) {
+            throw new Error(`Unknown mode "${mode}". Use append, cursor, daily or clipboard.`);
+        }
+        // A template given in the URI replaces the link and domain templates
+        const linkSettings = params.template ? { ...settings, linkTemplate: params.template, domainTemplates: [] } : settings;
+
+        // Check the target before fetching, so a bad URI fails fast
+        const editor = mode === 'cursor' ? app.workspace.getActiveViewOfType(MarkdownView)?.editor : undefined;
+        if (mode === 'cursor' && !editor) {
+            throw new Error('Open a note to insert the link at the cursor.');
+        }
+        if (mode === 'append' && !params.file) {
+            throw new Error('The append mode needs a file parameter.');
+        }
+
+        const outcome = await UrlTitleFetcher.getNamedUrl(url, settings);
+        const result = outcome.result;
+        // Why the raw URL is used instead of a link
+        const failure = outcome.status === 'failed' ? ` (${URL_OUTCOME_REASON_LABELS[outcome.reason]}: ${outcome.error})` : '';
+
+        // The page name, or the link when the URI gives a template
+        if (mode === 'clipboard') {
+            const text = !result ? url : params.template ? UrlTitleFetcher.formatLink(result, url, linkSettings) : result.title;
+            await navigator.clipboard.writeText(text);
+            new Notice(result ? `Copied "${result.title}" to the clipboard.` : `No title found; copied the URL to the clipboard${failure}.`);
+            return;
+        }
+
+        if (editor) {
+            const doc = editor.getValue();
+            const formatter = new LinkFormatter(linkSettings, doc);
+            editor.replaceSelection(result ? formatter.format(url, result) : url);
+            if (!result) {
+                new Notice(`No title found; inserted the URL${failure}.`, 8000);
+            }
+            if (formatter.definitions.length > 0) {
+                const current = editor.getValue();
+                const { from, insert } = LinkFormatter.definitionsEdit(current, formatter.definitions);
+                editor.replaceRange(insert, editor.offsetToPos(from), editor.offsetToPos(current.length));
+            }
+            return;
+        }
+
+        const file = mode === 'daily' ? await this.dailyNote(app) : await this.noteAt(app, params.file);
+        await app.vault.process(file, data => {
+            const formatter = new LinkFormatter(linkSettings, data);
+            const updated = this.insert(data, result ? formatter.format(url, result) : url, params.heading);
+            return LinkFormatter.appendDefinitions(updated, formatter.definitions);
+        });
+        new Notice(`Added ${result ? `"${result.title}"` : url} to ${file.basename}${result ? '' : failure}.`);
+    }
+
+    // The note at a path or link text, created if it doesn't exist
+    static async noteAt(app: App, path: string): Promise<TFile> {
+        const linkpath = path.replace(/\.md$/i, '');
+        const existing = app.metadataCache.getFirstLinkpathDest(linkpath, '');
+        if (existing) {
+            return existing;
+        }
+        return app.vault.create(normalizePath(`${linkpath}.md`), '');
+    }
+
+    // Today's note per the daily notes core plugin, created from its template if needed
+    static async dailyNote(app: App): Promise<TFile> {
+        const internal = (app as unknown as { internalPlugins?: { getPluginById(id: string): { enabled: boolean, instance?: { options?: DailyNoteOptions } } | null } }).internalPlugins;
+        const dailyNotes = internal?.getPluginById('daily-notes');
+        if (!dailyNotes?.enabled) {
+            throw new Error('Enable the Daily notes core plugin to use the daily mode.');
+        }
+        const options = dailyNotes.instance?.options ?? {};
+        const name = moment().format(options.format || 'YYYY-MM-DD');
+        const path = normalizePath(`${options.folder ?? ''}/${name}.md`);
+        const existing = app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            return existing;
+        }
+
+        let content = '';
+        const template = options.template ? app.metadataCache.getFirstLinkpathDest(options.template.replace(/\.md$/i, ''), '') : null;
+        if (template) {
+            // The variables the daily notes plugin fills in
+            content = (await app.vault.read(template)).replace(/{{\s*(date|time|title)\s*(?::(.*?))?}}/gi, (_, variable: string, format?: string) => {
+                const kind = variable.toLowerCase();
+                if (kind === 'title') {
+                    return name;
+                }
+                return moment().format(format?.trim() || (kind === 'date' ? options.format || 'YYYY-MM-DD' : 'HH:mm'));
+            });
+        }
+        return app.vault.create(path, content);
+    }
+
+    // Adds the text on its own line at the end of the note, or at the end of the
+    // heading's section (which is added to the end of the note if it is missing)
+    static insert(data: string, text: string, heading?: string): string {
+        const append = (body: string, line: string) => body.replace(/\s*$/, '') + (body.trim() ? '\n' : '') + line + '\n';
+        if (!heading?.trim()) {
+            return append(data, text);
+        }
+
+        const name = heading.replace(/^#+\s*/, '').trim().toLowerCase();
+        const lines = data.split('\n');
+        const headingPattern = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+        // "#" lines in fenced code blocks are not headings
+        const fenced: boolean[] = [];
+        let fence = '';
+        for (const line of lines) {
+            const marker = /^ {0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+            if (!fence) {
+                fence = marker ?? '';
+                fenced.push(marker !== undefined);
+                continue;
+            }
+            fenced.push(true);
+            if (marker && marker[0] === fence[0] && marker.length >= fence.length && !line.trim().substring(marker.length).trim()) {
+                fence = '';
+            }
+        }
+        const headingAt = (i: number) => fenced[i] ? null : headingPattern.exec(lines[i]);
+        const index = lines.findIndex((line, i) => headingAt(i)?.[2].trim().toLowerCase() === name);
+        if (index === -1) {
+            return append(append(data, `${data.trim() ? '\n' : ''}## ${heading.replace(/^#+\s*/, '').trim()}`), text);
+        }
+
+        // The section ends at the next heading of the same or a higher level
+        const level = (headingAt(index)?.[1] ?? '#').length;
+        let end = index + 1;
+        for (; end < lines.length; end++) {
+            const match = headingAt(end);
+            if (match && match[1].length <= level) {
+                break;
+            }
+        }
+        // Add after the section's last non-blank line
+        let insertAt = end;
+        while (insertAt > index + 1 && !lines[insertAt - 1].trim()) {
+            insertAt--;
+        }
+        lines.splice(insertAt, 0, text);
+        return lines.join('\n');
+    }
+
+}
+
+// Replaces recorded ranges of an editor while the user keeps working.
+// Ranges after an edit are shifted by its length change; an edit is skipped
+// if the text in its range is no longer what was recorded, or if the view
+// now shows another file.
+class EditorPatcher {
+
+    applied = 0;
+    skipped = 0;
+    private file: TFile | null;
+
+    constructor(private editor: Editor, private view: MarkdownView | MarkdownFileInfo, private targets: Array<{ start: number, end: number, text: string }>) {
+        this.file = view.file;
+    }
+
+    isOpen(): boolean {
+        return this.view.file === this.file;
+    }
+
+    // Replaces target `index`; a block is moved out of the surrounding paragraph.
+    // Returns false if the target was skipped.
+    apply(index: number, text: string, block = false): boolean {
+        const target = this.targets[index];
+        let replacement = text;
+        try {
+            const from = this.editor.offsetToPos(target.start);
+            const to = this.editor.offsetToPos(target.end);
+            if (!this.isOpen() || this.editor.getRange(from, to) !== target.text) {
+                this.skipped++;
+                return false;
+            }
+            if (block) {
+                const before = this.editor.getRange({ line: from.line, ch: 0 }, from);
+                const after = this.editor.getRange(to, { line: to.line, ch: this.editor.getLine(to.line).length });
+                replacement = (before.trim() ? '\n\n' : '') + text + (after.trim() ? '\n\n' : '');
+            }
+            this.editor.replaceRange(replacement, from, to);
+        } catch (e) {
+            // The editor was closed during the run
+            console.error('Failed to insert link:', e);
+            this.skipped++;
+            return false;
+        }
+        const delta = replacement.length - target.text.length;
+        for (const other of this.targets) {
+            if (other !== target && other.start >= target.end) {
+                other.start += delta;
+                other.end += delta;
+            }
+        }
+        target.end = target.start + replacement.length;
+        target.text = replacement;
+        this.applied++;
+        return true;
+    }
+
+}
+
+// Persistent Notice with a Cancel button for editor runs
+class RunProgressNotice {
+
+    private notice: Notice;
+    private statusEl: HTMLElement;
+
+    constructor(private total: number, onCancel: () => void) {
+        const fragment = createFragment(f => {
+            this.statusEl = f.createSpan({ text: `Fetching titles: 0 / ${total}` });
+            const button = f.createEl('button', { text: 'Cancel', cls: 'url-namer-cancel-button' });
+            button.addEventListener('click', evt => {
+                // Keep the click from dismissing the notice
+                evt.stopPropagation();
+                button.disabled = true;
+                this.statusEl.setText('Cancelling — waiting for running requests...');
+                onCancel();
+            });
+        });
+        this.notice = new Notice(fragment, 0);
+    }
+
+    update(done: number) {
+        if (!this.statusEl.getText().startsWith('Cancelling')) {
+            this.statusEl.setText(`Fetching titles: ${done} / ${this.total}`);
+        }
+    }
+
+    hide() {
+        this.notice.hide();
+    }
+
+}
+
+// Classifies URL matches by their markdown context so that only real bare URLs
+// are converted. Each construct is found on a copy of the text in which the
+// constructs found before it are blanked out, so e.g. a link inside a code
+// block is reported as code and never as a link.
+interface ScannedRange {
+    start: number;
+    end: number;
+    context: UrlContext;
+    url?: string;
+    link?: MarkdownLink;
+}
+
+class UrlScanner {
+
+    private static readonly stages: Array<{ context: UrlContext, pattern: RegExp }> = [
+        { context: 'frontmatter', pattern: /^---[ \t]*\r?\n[\s\S]*?\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/g },
+        { context: 'code-block', pattern: /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:\n {0,3}\1[`~]*[ \t]*(?=\n|$)|$(?![\s\S]))/gm },
+        { context: 'inline-code', pattern: /(`+)(?!`)[\s\S]*?[^`]\1(?!`)/g },
+        { context: 'autolink', pattern: /<(https?:\/\/[^\s<>]+)>/gi },
+        { context: 'html', pattern: /<\/?[a-zA-Z][a-zA-Z0-9-]*(?:\s[^<>]*)?\/?>/g },
+        { context: 'reference-definition', pattern: /^ {0,3}\[[^\]\n]+\]:[ \t]*\S+.*$/gm },
+        { context: 'wikilink', pattern: /!?\[\[[^\]\n]*\]\]/g },
+        // The link text (group 1) is reported as 'link-text', the destination (group 2) as 'markdown-link'
+        { context: 'markdown-link', pattern: /(!?\[[^\]\n]*\])\((<[^>\n]*>|[^)\s]*)(?:\s+["'(][^)\n]*)?\)/g }
+    ];
+
+    static scan(text: string, urlPattern: RegExp): UrlMatch[] {
+        const ranges = this.classify(text);
+
+        const matches: UrlMatch[] = [];
+        const regex = new RegExp(urlPattern.source, urlPattern.flags.includes('g') ? urlPattern.flags : urlPattern.flags + 'g');
+        let match;
+        while ((match = regex.exec(text)) !== null) {
+            const url = match[0];
+            const start = match.index;
+            if (url.length === 0) {
+                regex.lastIndex++;
+                continue;
+            }
+            const range = ranges.find(r => start >= r.start && start < r.end);
+
+            if (range?.context === 'autolink' && range.url) {
+                // The URL regex may run into the closing bracket; use the autolink itself
+                if (!matches.some(m => m.start === range.start)) {
+                    matches.push({ url: range.url, start: range.start, end: range.end, context: 'autolink', constructEnd: range.end });
+                }
+                continue;
+            }
+            // A match ends with its construct or where the next one starts; a bare URL also ends at a tag
+            const next = ranges.reduce((min, r) => r.start > start && r.start < min ? r.start : min, range ? range.end : text.length);
+            let cut = url.substring(0, next - start);
+            if (!range && cut.indexOf('<') > 0) {
+                cut = cut.substring(0, cut.indexOf('<'));
+            }
+            // Inside a tag the URL ends at its attribute's quote, in a wikilink at the alias
+            const stop = range?.context === 'html' ? /["'<>]/ : range?.context === 'wikilink' ? /[|\]]/ : null;
+            const stopAt = stop ? cut.search(stop) : -1;
+            if (stopAt > 0) {
+                cut = cut.substring(0, stopAt);
+            }
+            // The default URL regex doesn't stop at a closing backtick
+            const trimmed = range?.context === 'inline-code' ? cut.replace(/`+$/, '') : cut;
+            matches.push({
+                url: trimmed,
+                start,
+                end: start + trimmed.length,
+                context: range?.context ?? 'bare',
+                constructEnd: range && range.context !== 'link-text' ? range.end : start + trimmed.length
+            });
+        }
+        return matches;
+    }
+
+    // Context of a URL inserted into the text at `offset`
+    static contextAt(text: string, offset: number): UrlContext {
+        const probe = 'https://example.invalid/';
+        const probed = text.substring(0, offset) + probe + text.substring(offset);
+        const match = this.scan(probed, /https?:\/\/[^\s\])]+/gim).find(m => m.start <= offset && offset < m.end);
+        return match?.context ?? 'bare';
+    }
+
+    // Inline links in the text, outside of code, HTML and other constructs
+    static scanLinks(text: string): MarkdownLink[] {
+        return this.classify(text)
+            .map(range => range.link)
+            .filter((link): link is MarkdownLink => link !== undefined);
+    }
+
+    private static classify(text: string): ScannedRange[] {
+        const ranges: ScannedRange[] = [];
+        let masked = text;
+
+        for (const { context, pattern } of this.stages) {
+            const stageStart = ranges.length;
+            const regex = new RegExp(pattern.source, pattern.flags);
+            let match;
+            while ((match = regex.exec(masked)) !== null) {
+                if (match[0].length === 0) {
+                    regex.lastIndex++;
+                    continue;
+                }
+                const start = match.index;
+                const end = start + match[0].length;
+                if (context === 'markdown-link') {
+                    const textEnd = start + match[1].length;
+                    ranges.push({ start, end: textEnd, context: 'link-text' });
+                    // Images are links too, but their text is alt text. Read
+                    // from the original, as code in the link text is masked.
+                    const link = match[1].startsWith('!') ? undefined : {
+                        text: text.substring(start + 1, textEnd - 1),
+                        url: text.substring(textEnd + 1, textEnd + 1 + match[2].length).replace(/^<|>$/g, ''),
+                        textStart: start + 1,
+                        textEnd: textEnd - 1
+                    };
+                    ranges.push({ start: textEnd, end, context, link });
+                } else {
+                    ranges.push({ start, end, context, url: context === 'autolink' ? match[1] : undefined });
+                }
+            }
+            // Blank out what this stage found, keeping newlines so line anchors still work
+            for (const range of ranges.slice(stageStart)) {
+                masked = masked.substring(0, range.start)
+                    + masked.substring(range.start, range.end).replace(/[^\n]/g, ' ')
+                    + masked.substring(range.end);
+            }
+        }
+        return ranges;
+    }
+
+}
+
+// Requests every external link of a set of notes and classifies the
+// responses. requestUrl follows redirects silently, so on desktop each hop is
+// requested with Node's http module to report the redirect chain.
+class LinkChecker {
+
+    static readonly maxRedirects = 10;
+    static readonly timeoutMs = 15000;
+
+    // URLs in these contexts are not links
+    static readonly skippedContexts: UrlContext[] = ['frontmatter', 'code-block', 'inline-code', 'link-text'];
+
+    static findLinks(text: string, settings: UrlNameExtractorSettings): UrlMatch[] {
+        let urlPattern: RegExp;
+        try {
+            urlPattern = new RegExp(settings.urlRegex, 'gim');
+        } catch {
+            return [];
+        }
+        return UrlScanner.scan(text, urlPattern)
+            .filter(m => !this.skippedContexts.includes(m.context) && /^https?:\/\//i.test(m.url));
+    }
+
+    // Checks each distinct URL once; `onResult` reports progress as results arrive
+    static async checkFiles(
+        app: App,
+        files: TFile[],
+        settings: UrlNameExtractorSettings,
+        signal: AbortSignal,
+        onResult: (result: LinkCheckResult, done: number, total: number) => void
+    ): Promise<LinkCheckResult[]> {
+        const filesByUrl: Record<string, TFile[]> = {};
+        for (const file of files) {
+            for (const match of this.findLinks(await app.vault.cachedRead(file), settings)) {
+                const urlFiles = filesByUrl[match.url] ?? (filesByUrl[match.url] = []);
+                if (!urlFiles.includes(file)) {
+                    urlFiles.push(file);
+                }
+            }
+        }
+
+        const urls = Object.keys(filesByUrl);
+        let done = 0;
+        return Promise.all(urls.map(async url => {
+            const result = await this.check(url, settings, signal);
+            result.files = filesByUrl[url];
+            if (result.status === 'dead') {
+                try {
+                    result.archivedUrl = await UrlTitleFetcher.findArchivedUrl(url, settings, signal);
+                } catch (e) {
+                    if (e instanceof RunCancelledError) {
+                        throw e;
+                    }
+                    // No snapshot: the link can't be rewritten
+                }
+            }
+            onResult(result, ++done, urls.length);
+            return result;
+        }));
+    }
+
+    static async check(url: string, settings: UrlNameExtractorSettings, signal?: AbortSignal): Promise<LinkCheckResult> {
+        const result: LinkCheckResult = { url, status: 'error', code: null, redirects: [], finalUrl: url, files: [] };
+        try {
+            if (Platform.isDesktopApp) {
+                Object.assign(result, await this.traceRedirects(url, settings, signal));
+            } else {
+                // Some servers reject HEAD; retry failures with GET
+                let res = await RequestScheduler.request({ url, method: 'HEAD', throw: false }, settings, signal);
+                if (res.status >= 400) {
+                    res = await RequestScheduler.request({ url, throw: false }, settings, signal);
+                }
+                result.code = res.status;
+            }
+        } catch (e) {
+            if (e instanceof RunCancelledError) {
+                throw e;
+            }
+            const message = e instanceof Error ? e.message : String(e);
+            const code = typeof e === 'object' && e !== null && 'code' in e ? String((e as { code: unknown }).code) : '';
+            const dnsFailure = /^(ENOTFOUND|EAI_AGAIN)$/.test(code) || /ERR_NAME_NOT_RESOLVED|hostname could not be found|Unable to resolve host/i.test(message);
+            result.status = dnsFailure ? 'dead' : 'error';
+            result.error = dnsFailure ? 'DNS lookup failed' : message;
+            return result;
+        }
+        result.status = this.classify(result.code, result.redirects.length > 0);
+        return result;
+    }
+
+    static classify(code: number | null, redirected: boolean): LinkStatus {
+        if (code === null) {
+            return 'error';
+        }
+        if (code === 404 || code === 410) {
+            return 'dead';
+        }
+        if (code < 400) {
+            return redirected ? 'redirected' : 'ok';
+        }
+        // Often bot protection or rate limiting rather than a broken link
+        if ([401, 403, 429, 503, 999].includes(code)) {
+            return 'blocked';
+        }
+        return 'error';
+    }
+
+    // Desktop only (see nodeRequest)
+    static async traceRedirects(url: string, settings: UrlNameExtractorSettings, signal?: AbortSignal): Promise<{ code: number, redirects: LinkHop[], finalUrl: string }> {
+        const redirects: LinkHop[] = [];
+        let current = url;
+        for (let hop = 0; hop <= this.maxRedirects; hop++) {
+            let res = await this.nodeRequest(current, 'HEAD', settings, signal);
+            if (res.status >= 400) {
+                res = await this.nodeRequest(current, 'GET', settings, signal);
+            }
+            if (res.status >= 300 && res.status < 400 && res.location) {
+                redirects.push({ url: current, status: res.status });
+                current = new URL(res.location, current).toString();
+                continue;
+            }
+            return { code: res.status, redirects, finalUrl: current };
+        }
+        throw new Error(`More than ${this.maxRedirects} redirects`);
+    }
+
+    // A single request that doesn't follow redirects; the body is not read
+    private static async nodeRequest(url: string, method: string, settings: UrlNameExtractorSettings, signal?: AbortSignal): Promise<{ status: number, location?: string }> {
+        const parsed = new URL(url);
+        // Node modules are only reachable through Electron's require on desktop
+        const nodeRequire = (window as unknown as { require: (id: string) => unknown }).require;
+        const transport = (parsed.protocol === 'http:' ? nodeRequire('http') : nodeRequire('https')) as typeof import('https');
+        const profile = RequestProfiles.find(parsed.hostname, settings);
+        const headers = profile ? RequestProfiles.headers(profile) : {};
+        const timeout = profile?.timeoutSeconds ? profile.timeoutSeconds * 1000 : this.timeoutMs;
+        return RequestScheduler.schedule(parsed.hostname, settings, signal, () => new Promise((resolve, reject) => {
+            const req = transport.request(url, { method, headers, timeout }, res => {
+                resolve({ status: res.statusCode ?? 0, location: res.headers.location });
+                res.destroy();
+            });
+            req.on('timeout', () => req.destroy(new Error('Timed out')));
+            req.on('error', reject);
+            req.end();
+        }));
+    }
+
+    // Replaces each occurrence of a dead link with its snapshot URL, or adds
+    // an "(archived)" link after it. Returns the number of links changed.
+    static async rewrite(app: App, result: LinkCheckResult, mode: 'replace' | 'append', settings: UrlNameExtractorSettings): Promise<number> {
+        const archivedUrl = result.archivedUrl;
+        if (!archivedUrl) {
+            return 0;
+        }
+        let count = 0;
+        for (const file of result.files) {
+            await app.vault.process(file, data => {
+                // A link inside HTML or a reference definition can't be followed by markdown
+                const matches = this.findLinks(data, settings)
+                    .filter(m => m.url === result.url && (mode === 'replace' || !['html', 'reference-definition'].includes(m.context)));
+                let text = data;
+                for (let i = matches.length - 1; i >= 0; i--) {
+                    const { start, end, constructEnd, context } = matches[i];
+                    text = mode === 'replace'
+                        ? text.substring(0, start) + (context === 'autolink' ? `<${archivedUrl}>` : archivedUrl) + text.substring(end)
+                        : text.substring(0, constructEnd) + ` ([archived](${archivedUrl}))` + text.substring(constructEnd);
+                }
+                count += matches.length;
+                return text;
+            });
+        }
+        return count;
+    }
+
+}
+
+class VaultTagger {
+
+    // Names the raw URLs of each file in turn. Fetching happens outside of
+    // vault.process (its callback must be synchronous), so the write is only
+    // applied if the note still holds the text the titles were fetched for.
+    static async tagFiles(app: App, files: TFile[], settings: UrlNameExtractorSettings, progress: BulkProgressModal): Promise<BulkSummary> {
+        const summary: BulkSummary = { fileCount: 0, changedCount: 0, urlCount: 0, successCount: 0, failureCount: 0 };
+
+        for (const file of files) {
+            progress.startFile(file.path);
+            // Failures are counted in the progress view
+            const fileResult = await this.tagFile(app, file, settings);
+
+            summary.fileCount++;
+            summary.urlCount += fileResult.urlCount;
+            summary.successCount += fileResult.successCount;
+            summary.failureCount += fileResult.failureCount;
+            if (fileResult.status === 'updated') {
+                summary.changedCount++;
+            }
+            progress.addResult(fileResult);
+        }
+
+        return summary;
+    }
+
+    // The Microlink budget warning for a run over these files; only reads them when Microlink is enabled
+    static async microlinkWarning(app: App, files: TFile[], settings: UrlNameExtractorSettings): Promise<string | undefined> {
+        if (!MicrolinkQuota.enabled(settings)) {
+            return undefined;
+        }
+        let urlPattern: RegExp;
+        try {
+            urlPattern = new RegExp(settings.urlRegex, 'gim');
+        } catch {
+            // The run reports the invalid pattern
+            return undefined;
+        }
+        const urls: string[] = [];
+        for (const file of files) {
+            for (const match of UrlScanner.scan(await app.vault.cachedRead(file), urlPattern)) {
+                if (match.context === 'bare' || settings.convertContexts.includes(match.context as ConvertibleContext)) {
+                    urls.push(match.url);
+                }
+            }
+        }
+        return MicrolinkQuota.projectionWarning(urls, settings);
+    }
+
+    static async tagFile(app: App, file: TFile, settings: UrlNameExtractorSettings): Promise<BulkFileResult> {
+        const fileResult: BulkFileResult = {
+            path: file.path,
+            urlCount: 0,
+            successCount: 0,
+            failureCount: 0,
+            status: 'unchanged',
+            outcomes: []
+        };
+
+        try {
+            const original = await app.vault.read(file);
+            const tagged = await UrlTagger.tagText(original, settings);
+            fileResult.urlCount = tagged.urlCount;
+            fileResult.successCount = tagged.successCount;
+            fileResult.failureCount = tagged.failureCount;
+            fileResult.outcomes = tagged.outcomes;
+            const updated = LinkFormatter.appendDefinitions(tagged.text, tagged.definitions);
+
+            if (updated !== original) {
+                let applied = false;
+                await app.vault.process(file, data => {
+                    if (data !== original) {
+                        return data;
+                    }
+                    applied = true;
+                    return updated;
+                });
+                fileResult.status = applied ? 'updated' : 'modified';
+            }
+        } catch (e) {
+            fileResult.status = 'error';
+            fileResult.error = e instanceof Error ? e.message : String(e);
+        }
+        return fileResult;
+    }
+
+}
+
+// Post-processing for fetched titles: built-in rules first, then the user's
+// find/replace rules, then the length limit
+class TitleCleaner {
+
+    static readonly siteSeparators = ['|', '-', '–', '—', '·', '•', '::', ':'];
+
+    // Collects a "rule: result" line for each step that changed the title when `steps` is given
+    static clean(url: string, result: TitleResult, settings: UrlNameExtractorSettings, steps?: string[]): TitleResult {
+        let title = result.title;
+        const apply = (name: string, next: string) => {
+            if (next !== title && next.trim()) {
+                title = next;
+                steps?.push(`${name}: ${title}`);
+            }
+        };
+
+        let hostname = '';
+        try {
+            hostname = new URL(url.startsWith('http') ? url : `http://${url}`).hostname;
+        } catch {
+            // Domain-specific rules won't match
+        }
+
+        if (settings.collapseWhitespace) {
+            apply('Collapse whitespace', title.replace(/\s+/g, ' ').trim());
+        }
+
+        if (settings.stripSiteName) {
+            apply('Strip site name', this.stripSiteName(title, hostname, result.siteName));
+        }
+
+        for (const rule of settings.titleRules) {
+            if (!rule.find || (rule.domain && !hostMatchesDomain(hostname, rule.domain))) {
+                continue;
+            }
+            try {
+                apply(`Rule /${rule.find}/`, title.replace(new RegExp(rule.find, 'g'), rule.replace).trim());
+            } catch (e) {
+                console.error(`Invalid title rule /${rule.find}/:`, e);
+                steps?.push(`Rule /${rule.find}/: invalid regex`);
+            }
+        }
+
+        if (settings.maxTitleLength > 0 && title.length > settings.maxTitleLength) {
+            apply('Max length', title.substring(0, settings.maxTitleLength - 1).trimEnd() + '…');
+        }
+
+        return { ...result, title };
+    }
+
+    // Removes a trailing " | Name" when Name is the site name, the domain or its main label
+    static stripSiteName(title: string, hostname: string, siteName?: string): string {
+        const domain = hostname.toLowerCase().replace(/^www\./, '');
+        const candidates = [siteName, domain, domain.split('.').slice(-2, -1)[0]]
+            .filter((c): c is string => !!c)
+            .map(c => c.trim().toLowerCase());
+
+        for (const separator of this.siteSeparators) {
+            const index = title.lastIndexOf(` ${separator} `);
+            if (index <= 0) {
+                continue;
+            }
+            const suffix = title.substring(index + separator.length + 2).trim().toLowerCase();
+            if (candidates.includes(suffix)) {
+                return title.substring(0, index).trim();
+            }
+        }
+        return title;
+    }
+
+}
+
+// Renders titled links from the link template. One instance is used per run so
+// reference-style templates can number their definitions.
+class LinkFormatter {
+
+    definitions: string[] = [];
+    private nextRef: number;
+
+    constructor(private settings: UrlNameExtractorSettings, existingText = '') {
+        // Continue after the highest numeric reference id already in the note
+        let maxRef = 0;
+        const refPattern = /^\s*\[(\d+)\]:/gm;
+        let match;
+        while ((match = refPattern.exec(existingText)) !== null) {
+            maxRef = Math.max(maxRef, parseInt(match[1], 10));
+        }
+        this.nextRef = maxRef + 1;
+    }
+
+    static templateFor(url: string, settings: UrlNameExtractorSettings): string {
+        let hostname = '';
+        try {
+            hostname = new URL(url).hostname;
+        } catch {
+            return settings.linkTemplate;
+        }
+        const override = settings.domainTemplates.find(t => hostMatchesDomain(hostname, t.domain));
+        return override?.template || settings.linkTemplate;
+    }
+
+    static render(template: string, values: Record<string, string>): string {
+        return template.replace(/\{(\w+)(?::([^}]+))?\}/g, (placeholder: string, name: string, format?: string) => {
+            if (name === 'date') {
+                return moment().format(format ?? 'YYYY-MM-DD');
+            }
+            return Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder;
+        });
+    }
+
+    // Values that hold URLs rather than text
+    private static readonly urlValues = ['url', 'originalUrl', 'image', 'favicon'];
+    private static readonly htmlEntities: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;' };
+
+    // Escapes the values for the template: entities for HTML templates; for
+    // markdown, brackets in text and spaces, parentheses and angle brackets in URLs
+    static escapeValues(template: string, values: Record<string, string>): Record<string, string> {
+        const html = /<[a-zA-Z][^>]*>/.test(template);
+        const escaped: Record<string, string> = {};
+        for (const [name, value] of Object.entries(values)) {
+            if (html) {
+                escaped[name] = value.replace(/[&<>"']/g, c => LinkFormatter.htmlEntities[c]);
+            } else if (this.urlValues.includes(name)) {
+                escaped[name] = value.replace(/[\s()<>]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+            } else {
+                escaped[name] = LinkRepairer.escapeText(value);
+            }
+        }
+        return escaped;
+    }
+
+    // `url` is the URL as it appears in the note; the link points to the cleaned-up result.url if there is one
+    static valuesFor(originalUrl: string, result: TitleResult): Record<string, string> {
+        const url = result.url ?? originalUrl;
+        let domain = url;
+        try {
+            domain = new URL(url).hostname.replace(/^www\./, '');
+        } catch {
+            // Keep the raw URL as domain
+        }
+        let published = result.published ?? '';
+        const publishedDate = moment(published, moment.ISO_8601, true);
+        if (publishedDate.isValid()) {
+            published = publishedDate.format('YYYY-MM-DD');
+        }
+        return {
+            title: result.title,
+            url,
+            originalUrl,
+            domain,
+            siteName: result.siteName || domain,
+            source: TITLE_SOURCE_LABELS[result.source],
+            author: result.author ?? '',
+            published,
+            description: result.description ?? '',
+            doi: result.doi ?? '',
+            image: result.image ?? '',
+            favicon: result.favicon ?? ''
+        };
+    }
+
+    format(url: string, result: TitleResult): string {
+        const template = LinkFormatter.templateFor(url, this.settings);
+        const values = LinkFormatter.escapeValues(template, LinkFormatter.valuesFor(url, result));
+        if (template.includes('{ref}')) {
+            values.ref = String(this.nextRef++);
+            this.definitions.push(`[${values.ref}]: ${values.url}`);
+        }
+        return LinkFormatter.render(template, values);
+    }
+
+    // Link card for the card template. Lines whose placeholders all came out
+    // empty are left out, so a page without an image or description doesn't
+    // leave a broken image or a blank line behind.
+    card(url: string, result: TitleResult): string {
+        const values = LinkFormatter.escapeValues(this.settings.cardTemplate, LinkFormatter.valuesFor(url, result));
+        return this.settings.cardTemplate
+            .split('\n')
+            .filter(line => {
+                const placeholders = line.match(/\{\w+(?::[^}]+)?\}/g) ?? [];
+                return placeholders.length === 0 || placeholders.some(p => LinkFormatter.render(p, values) !== '');
+            })
+            .map(line => LinkFormatter.render(line, values))
+            .join('\n');
+    }
+
+    // Edit that appends reference definitions to the end of a note: replace
+    // everything from `from` (the trailing whitespace) with `insert`
+    static definitionsEdit(text: string, definitions: string[]): { from: number, insert: string } {
+        const trimmed = text.replace(/\s+$/, '');
+        // Join an existing definition block at the end of the note instead of starting a new one
+        const separator = trimmed === '' ? '' : /(^|\n)\s*\[[^\]]+\]:\s*\S+$/.test(trimmed) ? '\n' : '\n\n';
+        return { from: trimmed.length, insert: separator + definitions.join('\n') + '\n' };
+    }
+
+    static appendDefinitions(text: string, definitions: string[]): string {
+        if (definitions.length === 0) {
+            return text;
+        }
+        const { from, insert } = this.definitionsEdit(text, definitions);
+        return text.substring(0, from) + insert;
+    }
+
+}
+
+// Fetched titles keyed by normalized URL, stored as JSON next to the plugin data
+class TitleCache {
+
+    private entries: Record<string, CacheEntry> = {};
+    private requestSave: Debouncer<[], Promise<void>>;
+
+    constructor(private adapter: DataAdapter, private path: string) {
+        this.requestSave = debounce(() => this.save(), 2000, true);
+    }
+
+    // Scheme and host are lowercased by the URL parser; the fragment never
+    // changes the fetched page, and a trailing slash on the path is ignored.
+    static normalizeUrl(url: string): string {
+        try {
+            const parsed = new URL(url);
+            parsed.hash = '';
+            if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+                parsed.pathname = parsed.pathname.slice(0, -1);
+            }
+            return parsed.toString();
+        } catch {
+            return url.trim();
+        }
+    }
+
+    private static domainOf(key: string): string {
+        try {
+            return new URL(key).hostname.replace(/^www\./, '');
+        } catch {
+            return key;
+        }
+    }
+
+    async load(ttlDays: number) {
+        try {
+            if (await this.adapter.exists(this.path)) {
+                const parsed: unknown = JSON.parse(await this.adapter.read(this.path));
+                if (typeof parsed === 'object' && parsed !== null) {
+                    this.entries = parsed as Record<string, CacheEntry>;
+                }
+            }
+        } catch (e) {
+            console.error('Failed to load title cache:', e);
+            this.entries = {};
+        }
+
+        // Drop expired entries so the file doesn't grow forever
+        const maxAge = ttlDays * 24 * 60 * 60 * 1000;
+        for (const [key, entry] of Object.entries(this.entries)) {
+            if (Date.now() - entry.fetchedAt > maxAge) {
+                delete this.entries[key];
+            }
+        }
+    }
+
+    async save() {
+        try {
+            await this.adapter.write(this.path, JSON.stringify(this.entries));
+        } catch (e) {
+            console.error('Failed to save title cache:', e);
+        }
+    }
+
+    get(url: string, ttlDays: number): CacheEntry | undefined {
+        const entry = this.entries[TitleCache.normalizeUrl(url)];
+        if (!entry || Date.now() - entry.fetchedAt > ttlDays * 24 * 60 * 60 * 1000) {
+            return undefined;
+        }
+        return entry;
+    }
+
+    set(url: string, entry: CacheEntry) {
+        this.entries[TitleCache.normalizeUrl(url)] = entry;
+        this.requestSave();
+    }
+
+    delete(url: string) {
+        if (delete this.entries[TitleCache.normalizeUrl(url)]) {
+            this.requestSave();
+        }
+    }
+
+    size(): number {
+        return Object.keys(this.entries).length;
+    }
+
+    async clear() {
+        this.entries = {};
+        await this.save();
+    }
+
+    // Removes entries for the domain and its subdomains, returns the number removed
+    async clearDomain(domain: string): Promise<number> {
+        let removed = 0;
+        for (const key of Object.keys(this.entries)) {
+            if (hostMatchesDomain(TitleCache.domainOf(key), domain)) {
+                delete this.entries[key];
+                removed++;
+            }
+        }
+        await this.save();
+        return removed;
+    }
+
+    domains(): Array<{ domain: string, count: number }> {
+        const counts: Record<string, number> = {};
+        for (const key of Object.keys(this.entries)) {
+            const domain = TitleCache.domainOf(key);
+            counts[domain] = (counts[domain] ?? 0) + 1;
+        }
+        return Object.keys(counts)
+            .map(domain => ({ domain, count: counts[domain] }))
+            .sort((a, b) => b.count - a.count);
+    }
+
+    describe(ttlDays: number): string {
+        const entries = Object.values(this.entries);
+        if (entries.length === 0) {
+            return 'The title cache is empty.';
+        }
+        const maxAge = ttlDays * 24 * 60 * 60 * 1000;
+        const expired = entries.filter(e => Date.now() - e.fetchedAt > maxAge).length;
+        const bySource: Record<string, number> = {};
+        for (const entry of entries) {
+            const label = TITLE_SOURCE_LABELS[entry.source] ?? entry.source;
+            bySource[label] = (bySource[label] ?? 0) + 1;
+        }
+        const times = entries.map(e => e.fetchedAt);
+        const topDomains = this.domains().slice(0, 5);
+
+        return [
+            `Cached titles: ${entries.length} (${expired} expired)`,
+            `Domains: ${this.domains().length}`,
+            `Oldest entry: ${new Date(Math.min(...times)).toLocaleString()}`,
+            `Newest entry: ${new Date(Math.max(...times)).toLocaleString()}`,
+            `Lifetime: ${ttlDays} days`,
+            '',
+            'By source:',
+            ...Object.keys(bySource).map(label => `  ${label}: ${bySource[label]}`),
+            '',
+            'Top domains:',
+            ...topDomains.map(d => `  ${d.domain}: ${d.count}`)
+        ].join('\n');
+    }
+
+}
+
+// Per-domain request settings: extra headers, cookies, user agent, language,
+// timeout and which strategy fetches the page
+class RequestProfiles {
+
+    static create(): RequestProfile {
+        return { domain: '', strategy: 'auto', headers: {}, cookies: '', userAgent: '', acceptLanguage: '', timeoutSeconds: 0 };
+    }
+
+    static find(hostname: string, settings: UrlNameExtractorSettings): RequestProfile | undefined {
+        return hostname ? settings.requestProfiles.find(p => p.domain && hostMatchesDomain(hostname, p.domain)) : undefined;
+    }
+
+    static findForUrl(url: string, settings: UrlNameExtractorSettings): RequestProfile | undefined {
+        try {
+            return this.find(new URL(url).hostname, settings);
+        } catch {
+            return undefined;
+        }
+    }
+
+    // Headers the profile adds to every request
+    static headers(profile: RequestProfile): Record<string, string> {
+        const headers: Record<string, string> = {};
+        if (profile.userAgent) {
+            headers['User-Agent'] = profile.userAgent;
+        }
+        if (profile.acceptLanguage) {
+            headers['Accept-Language'] = profile.acceptLanguage;
+        }
+        if (profile.cookies) {
+            headers['Cookie'] = profile.cookies;
+        }
+        return this.mergeHeaders(headers, profile.headers);
+    }
+
+    // Header names are case-insensitive, so an override replaces any spelling of the name
+    static mergeHeaders(base: Record<string, string>, overrides: Record<string, string>): Record<string, string> {
+        const merged = { ...base };
+        for (const [name, value] of Object.entries(overrides)) {
+            for (const key of Object.keys(merged)) {
+                if (key.toLowerCase() === name.toLowerCase()) {
+                    delete merged[key];
+                }
+            }
+            merged[name] = value;
+        }
+        return merged;
+    }
+
+    // The provider a fallback strategy asks; built-in providers work even when
+    // they are disabled in the fallback list
+    static provider(profile: RequestProfile, settings: UrlNameExtractorSettings): FallbackProviderSetting | undefined {
+        const strategy = profile.strategy;
+        if (strategy === 'custom') {
+            const custom = settings.fallbackProviders.filter(p => p.type === 'custom');
+            return custom.find(p => (p.name ?? '') === (profile.customProvider ?? '')) ?? custom[0];
+        }
+        if (strategy === 'archive' || strategy === 'microlink') {
+            return settings.fallbackProviders.find(p => p.type === strategy) ?? { type: strategy, enabled: true };
+        }
+        return undefined;
+    }
+
+    // "Name: value" lines; throws on a line without a name
+    static parseHeaders(text: string): Record<string, string> {
+        const headers: Record<string, string> = {};
+        for (const line of text.split('\n').filter(l => l.trim())) {
+            const separatorIndex = line.indexOf(':');
+            if (separatorIndex < 1) {
+                throw new Error(`Invalid format in line: "${line}". Expected format: Name: value`);
+            }
+            headers[line.substring(0, separatorIndex).trim()] = line.substring(separatorIndex + 1).trim();
+        }
+        return headers;
+    }
+
+    static formatHeaders(headers: Record<string, string>): string {
+        return Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+    }
+
+}
+
+// Routes every HTTP request of the plugin: limits how many run at once, spaces
+// out requests to the same host by the request delay, and retries 429
+// responses once the host's Retry-After has passed.
+class RequestScheduler {
+
+    // Longer Retry-After waits (e.g. daily quotas) are not worth waiting for
+    static readonly maxRetryAfterMs = 30000;
+    static readonly maxRetries = 2;
+
+    private static active = 0;
+    private static waiting: Array<() => void> = [];
+    private static hostReadyAt: Record<string, number> = {};
+
+    static async request(params: RequestUrlParam, settings: UrlNameExtractorSettings, signal?: AbortSignal): Promise<RequestUrlResponse> {
+        let host = '';
+        try {
+            host = new URL(params.url).hostname;
+        } catch {
+            // Let requestUrl report the invalid URL
+        }
+
+        const profile = RequestProfiles.find(host, settings);
+        const headers = profile ? RequestProfiles.mergeHeaders(params.headers ?? {}, RequestProfiles.headers(profile)) : params.headers;
+        const timeoutMs = (profile?.timeoutSeconds ?? 0) * 1000;
+
+        for (let attempt = 0; ; attempt++) {
+            const res = await this.schedule(host, settings, signal,
+                () => this.withTimeout(requestUrl({ ...params, headers, throw: false }), timeoutMs));
+
+            if (res.status === 429 && attempt < this.maxRetries) {
+                const wait = this.parseRetryAfter(res.headers);
+                if (wait !== null && wait <= this.maxRetryAfterMs) {
+                    this.hostReadyAt[host] = Math.max(this.hostReadyAt[host] ?? 0, Date.now() + wait);
+                    continue;
+                }
+            }
+
+            if (params.throw !== false && res.status >= 400) {
+                throw new HttpStatusError(res.status);
+            }
+            return res;
+        }
+    }
+
+    // Runs a request for the host once its delay has passed and a concurrency slot is free
+    static async schedule<T>(host: string, settings: UrlNameExtractorSettings, signal: AbortSignal | undefined, send: () => Promise<T>): Promise<T> {
+        for (;;) {
+            // Wait for the host without holding a slot, so requests to other hosts can use it
+            await this.waitForHost(host, signal);
+            await this.acquire(settings.maxConcurrentRequests, signal);
+            // Another request to the host (or a Retry-After) may have moved its turn while this one waited for a slot
+            if ((this.hostReadyAt[host] ?? 0) > Date.now()) {
+                this.release();
+                continue;
+            }
+            this.hostReadyAt[host] = Date.now() + settings.requestDelay;
+            try {
+                // requestUrl can't be aborted, so cancelling only stops requests that haven't started
+                if (signal?.aborted) {
+                    throw new RunCancelledError();
+                }
+                return await send();
+            } finally {
+                this.release();
+            }
+        }
+    }
+
+    // requestUrl can't be aborted either; a timed out request is abandoned and frees its slot
+    static withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+        if (timeoutMs <= 0) {
+            return promise;
+        }
+        return new Promise<T>((resolve, reject) => {
+            const timer = window.setTimeout(() => reject(new TitleFetchError('timeout', `Timed out after ${timeoutMs / 1000}s`)), timeoutMs);
+            promise.then(resolve, reject).finally(() => window.clearTimeout(timer));
+        });
+    }
+
+    // Waits until the host's next request may start; the start time is reserved once a slot is held
+    // Cancelling ends the wait right away
+    private static waitForHost(host: string, signal?: AbortSignal): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new RunCancelledError());
+                return;
+            }
+            const wait = (this.hostReadyAt[host] ?? 0) - Date.now();
+            if (wait <= 0) {
+                resolve();
+                return;
+            }
+            const onAbort = () => {
+                window.clearTimeout(timer);
+                reject(new RunCancelledError());
+            };
+            const timer = window.setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, wait);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    private static acquire(limit: number, signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) {
+            return Promise.reject(new RunCancelledError());
+        }
+        if (this.active < limit) {
+            this.active++;
+            return Promise.resolve();
+        }
+        // The releasing request hands its slot over, so `active` stays the same
+        return new Promise<void>((resolve, reject) => {
+            const onAbort = () => {
+                this.waiting.splice(this.waiting.indexOf(next), 1);
+                reject(new RunCancelledError());
+            };
+            const next = () => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            };
+            this.waiting.push(next);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    private static release() {
+        const next = this.waiting.shift();
+        if (next) {
+            next();
+        } else {
+            this.active--;
+        }
+    }
+
+    // Retry-After is either a number of seconds or an HTTP date
+    static parseRetryAfter(headers: Record<string, string>): number | null {
+        const key = Object.keys(headers ?? {}).find(k => k.toLowerCase() === 'retry-after');
+        if (!key) {
+            return null;
+        }
+        const value = headers[key].trim();
+        if (/^\d+$/.test(value)) {
+            return parseInt(value, 10) * 1000;
+        }
+        const date = Date.parse(value);
+        return isNaN(date) ? null : Math.max(0, date - Date.now());
+    }
+
+}
+
+// Parsed view of a fetched page shared by the metadata extractors. Meta tags
+// and JSON-LD blocks are parsed on first use.
+class PageMetadataParser {
+
+    private metaTags: Record<string, string> | null = null;
+    private jsonLdObjects: Array<Record<string, unknown>> | null = null;
+
+    constructor(readonly url: string, readonly body: string, readonly settings: UrlNameExtractorSettings) {}
+
+    // Content of a <meta name|property="key"> tag (case-insensitive, first occurrence)
+    meta(...keys: string[]): string | undefined {
+        if (!this.metaTags) {
+            this.metaTags = {};
+            const tagPattern = /<meta\s[^>]*>/gi;
+            const attrPattern = /([a-zA-Z_:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+            let tag;
+            while ((tag = tagPattern.exec(this.body)) !== null) {
+                const attrs: Record<string, string> = {};
+                let attr;
+                while ((attr = attrPattern.exec(tag[0])) !== null) {
+                    attrs[attr[1].toLowerCase()] = attr[2] ?? attr[3] ?? attr[4] ?? '';
+                }
+                const key = (attrs.property ?? attrs.name ?? '').toLowerCase();
+                if (key && attrs.content?.trim() && !(key in this.metaTags)) {
+                    this.metaTags[key] = attrs.content;
+                }
+            }
+        }
+        for (const key of keys) {
+            const value = this.metaTags[key.toLowerCase()];
+            if (value) {
+                return value;
+            }
+        }
+        return undefined;
+    }
+
+    // href of the first <link rel="…"> with one of the given rel values, in order of preference
+    link(...rels: string[]): string | undefined {
+        const tags = this.body.match(/<link\s[^>]*>/gi) ?? [];
+        const attrPattern = /([a-zA-Z_:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+        const links = tags.map(tag => {
+            const attrs: Record<string, string> = {};
+            let attr;
+            while ((attr = attrPattern.exec(tag)) !== null) {
+                attrs[attr[1].toLowerCase()] = attr[2] ?? attr[3] ?? attr[4] ?? '';
+            }
+            return attrs;
+        });
+        for (const rel of rels) {
+            const found = links.find(l => (l.rel ?? '').trim().toLowerCase().replace(/\s+/g, ' ') === rel && l.href?.trim());
+            if (found) {
+                return found.href;
+            }
+        }
+        return undefined;
+    }
+
+    // All objects from <script type="application/ld+json"> blocks, with @graph and arrays flattened
+    jsonLd(): Array<Record<string, unknown>> {
+        if (!this.jsonLdObjects) {
+            const objects: Array<Record<string, unknown>> = [];
+            const scriptPattern = /<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+            const collect = (value: unknown) => {
+                if (Array.isArray(value)) {
+                    value.forEach(collect);
+                } else if (typeof value === 'object' && value !== null) {
+                    const obj = value as Record<string, unknown>;
+                    objects.push(obj);
+                    if (obj['@graph']) {
+                        collect(obj['@graph']);
+                    }
+                }
+            };
+            let script;
+            while ((script = scriptPattern.exec(this.body)) !== null) {
+                try {
+                    collect(JSON.parse(script[1]));
+                } catch {
+                    // Ignore malformed blocks
+                }
+            }
+            this.jsonLdObjects = objects;
+        }
+        return this.jsonLdObjects;
+    }
+
+    // Text of a JSON-LD value that may be a string, an object with a name, or an array of either
+    static jsonLdText(value: unknown): string | undefined {
+        if (typeof value === 'string') {
+            return value;
+        }
+        if (Array.isArray(value)) {
+            const names = value.map(v => PageMetadataParser.jsonLdText(v)).filter((v): v is string => !!v);
+            return names.length > 0 ? names.join(', ') : undefined;
+        }
+        if (typeof value === 'object' && value !== null && typeof (value as { name?: unknown }).name === 'string') {
+            return (value as { name: string }).name;
+        }
+        return undefined;
+    }
+
+    // URL of a JSON-LD image, which may be a string, an ImageObject or an array of either
+    static jsonLdUrl(value: unknown): string | undefined {
+        if (typeof value === 'string') {
+            return value;
+        }
+        if (Array.isArray(value)) {
+            return PageMetadataParser.jsonLdUrl(value[0]);
+        }
+        if (typeof value === 'object' && value !== null && typeof (value as { url?: unknown }).url === 'string') {
+            return (value as { url: string }).url;
+        }
+        return undefined;
+    }
+
+    static stripTags(html: string): string {
+        return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+    }
+
+}
+
+// Site-specific title rules: matching, validation, testing and the JSON
+// format used to share them
+class SiteRules {
+
+    static create(): SitePattern {
+        return { matcher: '', matcherType: 'glob', titleRegex: '', group: 1, enabled: true };
+    }
+
+    // A rule from settings or an import, or null if it isn't one. Accepts the
+    // old { urlMatch, titleRegex } format, whose substring match becomes a regex.
+    static normalize(raw: unknown): SitePattern | null {
+        if (typeof raw !== 'object' || raw === null) {
+            return null;
+        }
+        const value = raw as Partial<SitePattern> & { urlMatch?: unknown };
+        if (typeof value.titleRegex !== 'string') {
+            return null;
+        }
+        if (typeof value.matcher !== 'string' && typeof value.urlMatch === 'string') {
+            return { ...this.create(), matcher: this.escapeRegex(value.urlMatch), matcherType: 'regex', titleRegex: value.titleRegex };
+        }
+        if (typeof value.matcher !== 'string') {
+            return null;
+        }
+        return {
+            matcher: value.matcher,
+            matcherType: value.matcherType === 'regex' ? 'regex' : 'glob',
+            titleRegex: value.titleRegex,
+            group: typeof value.group === 'number' && value.group >= 0 ? Math.floor(value.group) : 1,
+            enabled: value.enabled !== false
+        };
+    }
+
+    static escapeRegex(text: string): string {
+        return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+
+    static globToRegExp(glob: string): RegExp {
+        const pattern = glob.trim().toLowerCase().split('*').map(part => this.escapeRegex(part)).join('.*');
+        // Without wildcards, a domain also matches its subdomains
+        return new RegExp(glob.includes('*') ? `^${pattern}$` : `^(.*\\.)?${pattern}$`);
+    }
+
+    static matches(rule: SitePattern, url: string): boolean {
+        try {
+            if (rule.matcherType === 'regex') {
+                return new RegExp(rule.matcher, 'i').test(url);
+            }
+            return this.globToRegExp(rule.matcher).test(new URL(url).hostname.toLowerCase());
+        } catch {
+            return false;
+        }
+    }
+
+    // The title the rule extracts from a page, if any
+    static extract(rule: SitePattern, body: string): string | undefined {
+        try {
+            const match = body.match(new RegExp(rule.titleRegex, 'im'));
+            const title = match?.[rule.group];
+            return typeof title === 'string' && title.trim() ? title : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    // An error message, or null if the rule is usable
+    static validate(rule: SitePattern): string | null {
+        if (!rule.matcher.trim()) {
+            return 'Enter a hostname or URL pattern';
+        }
+        if (!rule.titleRegex) {
+            return 'Enter a title regex';
+        }
+        let titleRegex: RegExp;
+        try {
+            if (rule.matcherType === 'regex') {
+                new RegExp(rule.matcher, 'i');
+            }
+        } catch (e) {
+            return `Invalid URL regex: ${e instanceof Error ? e.message : String(e)}`;
+        }
+        try {
+            titleRegex = new RegExp(rule.titleRegex, 'im');
+        } catch (e) {
+            return `Invalid title regex: ${e instanceof Error ? e.message : String(e)}`;
+        }
+        // Count the capture groups by matching an empty alternative
+        const groupCount = new RegExp(`${titleRegex.source}|`).exec('')?.length ?? 1;
+        if (rule.group > groupCount - 1) {
+            return `The title regex has no capture group ${rule.group}`;
+        }
+        return null;
+    }
+
+    static export(rules: SitePattern[]): string {
+        return JSON.stringify(rules, null, 2);
+    }
+
+    // Rules from exported JSON; throws if the text isn't a list of rules
+    static import(json: string): SitePattern[] {
+        const parsed: unknown = JSON.parse(json);
+        const list = Array.isArray(parsed) ? parsed : [parsed];
+        return list.map((item, index) => {
+            const rule = this.normalize(item);
+            if (!rule) {
+                throw new Error(`Item ${index + 1} is not a site rule`);
+            }
+            return rule;
+        });
+    }
+
+    // Fetches the page and reports, for each enabled rule, whether it matched and what it extracted
+    static async test(url: string, settings: UrlNameExtractorSettings): Promise<string[]> {
+        const applicable = settings.sitePatterns
+            .map((rule, index) => ({ rule, index }))
+            .filter(({ rule }) => rule.enabled && SiteRules.matches(rule, url));
+        if (applicable.length === 0) {
+            return ['No enabled rule matches this URL.'];
+        }
+        const res = await RequestScheduler.request({ url }, settings);
+        const body = UrlTitleFetcher.decodeBody(res);
+        const lines: string[] = [];
+        let found = false;
+        for (const { rule, index } of applicable) {
+            const error = this.validate(rule);
+            const title = error === null ? this.extract(rule, body) : undefined;
+            const label = `Rule ${index + 1} (${rule.matcher})`;
+            if (error !== null) {
+                lines.push(`${label}: ${error}`);
+            } else if (!title) {
+                lines.push(`${label}: matches the URL, but the title regex found nothing`);
+            } else if (found) {
+                lines.push(`${label}: would extract "${title.trim()}", but an earlier rule wins`);
+            } else {
+                lines.push(`${label}: matches → "${UrlTitleFetcher.decodeHtmlEntities(title.trim())}"`);
+                found = true;
+            }
+        }
+        return lines;
+    }
+
+}
+
+// Types whose "name" is the name of a site, person or image rather than the page title
+const JSON_LD_NON_PAGE_TYPES = ['WebSite', 'Organization', 'Person', 'BreadcrumbList', 'ImageObject', 'ListItem', 'SiteNavigationElement'];
+
+const METADATA_EXTRACTORS: MetadataExtractor[] = [
+    {
+        id: 'site-pattern',
+        name: 'Site-specific patterns',
+        desc: 'Your title patterns for matching sites.',
+        extract: page => {
+            // Invalid rules are flagged in settings and skipped here
+            for (const rule of page.settings.sitePatterns) {
+                if (rule.enabled && SiteRules.validate(rule) === null && SiteRules.matches(rule, page.url)) {
+                    const title = SiteRules.extract(rule, page.body);
+                    if (title) {
+                        return { title };
+                    }
+                }
+            }
+            return {};
+        }
+    },
+    {
+        id: 'direct',
+        name: 'Title tag',
+        desc: 'The page\'s <title>, plus the standard author and description meta tags, the site icon and the canonical URL.',
+        extract: page => {
+            const match = page.body.match(UrlTitleFetcher.htmlTitlePattern);
+            return {
+                title: match?.[1],
+                author: page.meta('author'),
+                description: page.meta('description'),
+                favicon: page.link('icon', 'shortcut icon', 'apple-touch-icon'),
+                canonicalUrl: page.link('canonical')
+            };
+        }
+    },
+    {
+        id: 'og',
+        name: 'Open Graph',
+        desc: 'og:title, og:site_name, og:description, og:image, og:url and article:published_time.',
+        extract: page => ({
+            title: page.meta('og:title'),
+            siteName: page.meta('og:site_name'),
+            description: page.meta('og:description'),
+            image: page.meta('og:image', 'og:image:url', 'og:image:secure_url'),
+            canonicalUrl: page.meta('og:url'),
+            published: page.meta('article:published_time')
+        })
+    },
+    {
+        id: 'json-ld',
+        name: 'JSON-LD',
+        desc: 'Structured data: headline or name, author, datePublished, publisher, image.',
+        extract: page => {
+            const found: PageMetadata = {};
+            for (const obj of page.jsonLd()) {
+                const types = ([] as unknown[]).concat(obj['@type'] ?? []).map(String);
+                const isPage = !types.some(t => JSON_LD_NON_PAGE_TYPES.includes(t));
+                if (types.includes('WebSite') && !found.siteName) {
+                    found.siteName = PageMetadataParser.jsonLdText(obj.name);
+                }
+                if (!isPage) {
+                    continue;
+                }
+                found.title = found.title ?? PageMetadataParser.jsonLdText(obj.headline) ?? PageMetadataParser.jsonLdText(obj.name);
+                found.author = found.author ?? PageMetadataParser.jsonLdText(obj.author);
+                found.published = found.published ?? PageMetadataParser.jsonLdText(obj.datePublished);
+                found.description = found.description ?? PageMetadataParser.jsonLdText(obj.description);
+                found.siteName = found.siteName ?? PageMetadataParser.jsonLdText(obj.publisher);
+                found.image = found.image ?? PageMetadataParser.jsonLdUrl(obj.image);
+            }
+            return found;
+        }
+    },
+    {
+        id: 'twitter',
+        name: 'Twitter card',
+        desc: 'twitter:title, twitter:description and twitter:image.',
+        extract: page => ({
+            title: page.meta('twitter:title'),
+            description: page.meta('twitter:description'),
+            image: page.meta('twitter:image', 'twitter:image:src')
+        })
+    },
+    {
+        id: 'citation',
+        name: 'Citation meta tags',
+        desc: 'Scholarly citation_title, citation_author, citation_publication_date, citation_journal_title and citation_doi.',
+        extract: page => ({
+            title: page.meta('citation_title'),
+            doi: page.meta('citation_doi'),
+            author: page.meta('citation_author'),
+            published: page.meta('citation_publication_date', 'citation_date', 'citation_online_date'),
+            siteName: page.meta('citation_journal_title', 'citation_conference_title', 'citation_publisher')
+        })
+    },
+    {
+        id: 'dublin-core',
+        name: 'Dublin Core',
+        desc: 'dc.title / dcterms.title and related fields.',
+        extract: page => ({
+            title: page.meta('dc.title', 'dcterms.title'),
+            author: page.meta('dc.creator', 'dcterms.creator'),
+            published: page.meta('dc.date', 'dcterms.date', 'dcterms.issued'),
+            description: page.meta('dc.description', 'dcterms.description'),
+            siteName: page.meta('dc.publisher', 'dcterms.publisher')
+        })
+    },
+    {
+        id: 'h1',
+        name: 'First heading',
+        desc: 'Text of the first <h1> on the page.',
+        extract: page => {
+            const match = page.body.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
+            return { title: match ? PageMetadataParser.stripTags(match[1]) : undefined };
+        }
+    }
+];
+
+const FALLBACK_PROVIDERS: Record<FallbackProviderType, FallbackProvider> = {
+    'microlink': {
+        type: 'microlink',
+        name: 'Microlink',
+        desc: 'Headless browser API. URLs are sent to a third-party service. ⚠️ Free tier: 50 requests/day — when exhausted, the next provider is tried.',
+        fetch: (url, config, settings, signal) => UrlTitleFetcher.tryMicrolinkFallbackResult(url, settings, signal)
+    },
+    'archive': {
+        type: 'archive',
+        name: 'Archive.org',
+        desc: 'The latest Wayback Machine snapshot. May not have recent content.',
+        fetch: (url, config, settings, signal) => UrlTitleFetcher.tryArchiveFallbackResult(url, settings, signal)
+    },
+    'custom': {
+        type: 'custom',
+        name: 'Custom endpoint',
+        desc: 'Your own metadata service, e.g. a local headless browser.',
+        fetch: (url, config, settings, signal) => UrlTitleFetcher.tryCustomEndpoint(url, config, settings, signal)
+    }
+};
+
+// Rewrites the URL a link is written with: short links are expanded to
+// where they redirect, the page's canonical URL can replace the original,
+// and tracking parameters are removed.
+class UrlCanonicalizer {
+
+    static isShortener(url: string, settings: UrlNameExtractorSettings): boolean {
+        try {
+            const hostname = new URL(url).hostname;
+            return settings.shortenerDomains.some(domain => hostMatchesDomain(hostname, domain));
+        } catch {
+            return false;
+        }
+    }
+
+    // Final redirect target of a short link. requestUrl doesn't report
+    // redirects, so this only works on desktop; elsewhere the short link is
+    // fetched as is and canonicalize() uses the page's canonical URL.
+    static async expand(url: string, settings: UrlNameExtractorSettings, signal?: AbortSignal): Promise<string> {
+        if (!settings.expandShorteners || !Platform.isDesktopApp || !this.isShortener(url, settings)) {
+            return url;
+        }
+        // Short links expanded before are not requested again
+        const cached = settings.useTitleCache ? UrlTitleFetcher.cache?.get(url, settings.cacheTtlDays) : undefined;
+        if (cached?.expandedUrl) {
+            return cached.expandedUrl;
+        }
+        try {
+            const { finalUrl } = await LinkChecker.traceRedirects(url, settings, signal);
+            return finalUrl;
+        } catch (e) {
+            if (e instanceof RunCancelledError) {
+                throw e;
+            }
+            console.error(`Failed to expand ${url}:`, e);
+            return url;
+        }
+    }
+
+    // The URL to write for `url`, which was fetched as `target`
+    static canonicalize(url: string, target: string, result: TitleResult, settings: UrlNameExtractorSettings): string {
+        let written = target;
+        const canonical = result.canonicalUrl;
+        if (canonical && (settings.useCanonicalUrl || (settings.expandShorteners && this.isShortener(written, settings)))) {
+            written = canonical;
+        }
+        if (settings.stripTrackingParams) {
+            written = this.stripTracking(written, settings.trackingParams);
+        }
+        // Keep the note's spelling when nothing but normalization changed
+        return TitleCache.normalizeUrl(written) === TitleCache.normalizeUrl(url) ? url : written;
+    }
+
+    static stripTracking(url: string, params: string[]): string {
+        let parsed: URL;
+        try {
+            parsed = new URL(url);
+        } catch {
+            return url;
+        }
+        const isTracking = (pair: string) => {
+            let name = pair.split('=')[0];
+            try {
+                name = decodeURIComponent(name);
+            } catch {
+                // Compare the raw name
+            }
+            return params.some(param => param.endsWith('*')
+                ? name.toLowerCase().startsWith(param.slice(0, -1).toLowerCase())
+                : name.toLowerCase() === param.toLowerCase());
+        };
+        const pairs = parsed.search.substring(1).split('&').filter(pair => pair);
+        const kept = pairs.filter(pair => !isTracking(pair));
+        if (kept.length === pairs.length) {
+            return url;
+        }
+        parsed.search = kept.length > 0 ? `?${kept.join('&')}` : '';
+        return parsed.toString();
+    }
+
+}
+
+// Names responses that aren't web pages: PDFs by the title in their
+// metadata, everything else by file name, followed by a type and size label
+// such as "(PDF, 2.3 MB)".
+class FileNamer {
+
+    // Types parsed as pages; anything else with a declared type is a file,
+    // including image/svg+xml and other XML-based media
+    static readonly pageTypes = ['text/html', 'application/xhtml+xml', 'application/xml', 'text/xml'];
+
+    static handles(contentType: string): boolean {
+        const mime = this.mimeType(contentType);
+        return mime !== '' && !this.pageTypes.includes(mime);
+    }
+
+    static mimeType(contentType: string): string {
+        return contentType.split(';')[0].trim().toLowerCase();
+    }
+
+    static describe(url: string, page: FetchedPage): TitleResult {
+        const mime = this.mimeType(page.contentType);
+        const bytes = page.bytes ? new Uint8Array(page.bytes) : new Uint8Array(0);
+        const length = parseInt(UrlTitleFetcher.header(page.headers, 'content-length') ?? '', 10);
+        const fileName = this.fileName(url, page.headers);
+        const label = `(${this.typeLabel(mime, fileName)}, ${this.formatSize(isNaN(length) ? bytes.length : length)})`;
+
+        if (mime === 'application/pdf') {
+            const pdfTitle = this.pdfTitle(bytes);
+            if (pdfTitle) {
+                return { title: `${pdfTitle} ${label}`, source: 'pdf-metadata' };
+            }
+        }
+        return { title: `${fileName} ${label}`, source: 'file-name' };
+    }
+
+    static typeLabel(mime: string, fileName: string): string {
+        const [type, subtype = ''] = mime.split('/');
+        const known: Record<string, string> = {
+            'application/pdf': 'PDF',
+            'application/json': 'JSON',
+            'application/zip': 'ZIP',
+            'text/plain': 'Text',
+            'text/csv': 'CSV',
+            // Other image, audio and video types are named after their subtype, e.g. "SVG image"
+            'audio/mpeg': 'MP3 audio'
+        };
+        if (known[mime]) {
+            return known[mime];
+        }
+        const name = subtype.replace(/^(x-|vnd\.)/, '').split(/[.+]/)[0].toUpperCase();
+        if (type === 'image' || type === 'audio' || type === 'video') {
+            return `${name} ${type}`;
+        }
+        if (name && name !== 'OCTET-STREAM') {
+            return name;
+        }
+        // Generic binary: use the file extension
+        const extension = fileName.match(/\.([a-z0-9]{1,5})$/i);
+        return extension ? extension[1].toUpperCase() : 'File';
+    }
+
+    static formatSize(bytes: number): string {
+        const units = ['B', 'KB', 'MB', 'GB'];
+        let size = bytes;
+        let unit = 0;
+        while (size >= 1024 && unit < units.length - 1) {
+            size /= 1024;
+            unit++;
+        }
+        return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+    }
+
+    // Content-Disposition filename (RFC 5987 filename* first), else the last path segment of the URL
+    static fileName(url: string, headers: Record<string, string>): string {
+        const disposition = UrlTitleFetcher.header(headers, 'content-disposition') ?? '';
+        const extended = disposition.match(/filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i);
+        if (extended) {
+            try {
+                return decodeURIComponent(extended[1].trim().replace(/^"|"$/g, ''));
+            } catch {
+                // Fall through to the plain filename
+            }
+        }
+        const plain = disposition.match(/filename\s*=\s*(?:"([^"]+)"|([^;]+))/i);
+        if (plain) {
+            return (plain[1] ?? plain[2]).trim();
+        }
+
+        try {
+            const parsed = new URL(url);
+            const segment = parsed.pathname.split('/').filter(p => p).pop();
+            return segment ? decodeURIComponent(segment) : parsed.hostname;
+        } catch {
+            return url;
+        }
+    }
+
+    // Reads the title from uncompressed XMP metadata (dc:title) or the
+    // document information dictionary (/Title). Metadata inside compressed
+    // object streams is not read.
+    static pdfTitle(bytes: Uint8Array): string | undefined {
+        // One character per byte keeps offsets and raw byte values intact
+        let raw = '';
+        for (let i = 0; i < bytes.length; i += 8192) {
+            raw += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 8192)));
+        }
+
+        const xmp = raw.match(/<dc:title>\s*<rdf:Alt>\s*<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/);
+        if (xmp) {
+            const title = UrlTitleFetcher.decodeHtmlEntities(this.utf8(xmp[1])).trim();
+            if (title) {
+                return title;
+            }
+        }
+
+        // The last /Title wins: incremental updates append newer info dictionaries
+        const titlePattern = /\/Title\s*(\(|<(?!<)|(\d+)\s+(\d+)\s+R)/g;
+        let title: string | undefined;
+        let match;
+        while ((match = titlePattern.exec(raw)) !== null) {
+            let start = match.index + match[0].length - 1;
+            let opener = match[1][0];
+            if (match[2]) {
+                // Indirect reference: look up the object holding the string
+                const object = new RegExp(`(?:^|\\s)${match[2]}\\s+${match[3]}\\s+obj\\s*([(<])`).exec(raw);
+                if (!object) {
+                    continue;
+                }
+                start = object.index + object[0].length - 1;
+                opener = object[1];
+            }
+            const value = opener === '(' ? this.pdfLiteralString(raw, start) : this.pdfHexString(raw, start);
+            const decoded = value !== null ? this.pdfTextString(value).trim() : '';
+            if (decoded) {
+                title = decoded;
+            }
+        }
+        return title;
+    }
+
+    // Bytes of a (literal string) starting at the opening parenthesis
+    static pdfLiteralString(raw: string, start: number): string | null {
+        let depth = 0;
+        let result = '';
+        for (let i = start; i < raw.length; i++) {
+            const char = raw[i];
+            if (char === '\\') {
+                const next = raw[++i];
+                const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+                if (escapes[next]) {
+                    result += escapes[next];
+                } else if (/[0-7]/.test(next)) {
+                    const octal = (raw.substring(i, i + 3).match(/^[0-7]{1,3}/) ?? ['0'])[0];
+                    result += String.fromCharCode(parseInt(octal, 8) & 0xFF);
+                    i += octal.length - 1;
+                } else if (next === '\r' || next === '\n') {
+                    // Line continuation
+                    if (next === '\r' && raw[i + 1] === '\n') {
+                        i++;
+                    }
+                } else {
+                    result += next;
+                }
+                continue;
+            }
+            if (char === '(') {
+                if (depth++ > 0) {
+                    result += char;
+                }
+            } else if (char === ')') {
+                if (--depth === 0) {
+                    return result;
+                }
+                result += char;
+            } else {
+                result += char;
+            }
+        }
+        return null;
+    }
+
+    // Bytes of a <hex string> starting at the opening bracket
+    static pdfHexString(raw: string, start: number): string | null {
+        const end = raw.indexOf('>', start);
+        if (end < 0) {
+            return null;
+        }
+        let hex = raw.substring(start + 1, end).replace(/[^0-9a-fA-F]/g, '');
+        if (hex.length % 2 === 1) {
+            hex += '0';
+        }
+        let result = '';
+        for (let i = 0; i < hex.length; i += 2) {
+            result += String.fromCharCode(parseInt(hex.substring(i, i + 2), 16));
+        }
+        return result;
+    }
+
+    // PDF text strings are UTF-16BE with a BOM, UTF-8 with a BOM (PDF 2.0) or PDFDocEncoding (close to Latin-1)
+    static pdfTextString(value: string): string {
+        const bytes = Uint8Array.from(value, c => c.charCodeAt(0));
+        if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+            return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+        }
+        if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+            return new TextDecoder('utf-8').decode(bytes.subarray(3));
+        }
+        return value;
+    }
+
+    static utf8(value: string): string {
+        return new TextDecoder('utf-8').decode(Uint8Array.from(value, c => c.charCodeAt(0)));
+    }
+
+}
+
+// Resolves DOI, arXiv and PubMed links to citation-style link text from
+// CSL-JSON metadata: DOIs through doi.org content negotiation, arXiv IDs
+// through their DataCite DOI, PubMed IDs through the NCBI citation exporter.
+class CitationResolver {
+
+    static match(url: string): { kind: 'doi' | 'arxiv' | 'pubmed', id: string } | null {
+        let parsed: URL;
+        let path: string;
+        try {
+            parsed = new URL(url);
+            // Throws a URIError for malformed escapes such as "/100%"
+            path = decodeURIComponent(parsed.pathname);
+        } catch {
+            return null;
+        }
+        const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+
+        if (host === 'doi.org' || host === 'dx.doi.org') {
+            const doi = path.replace(/^\//, '');
+            return /^10\.\d{4,9}\/\S+$/.test(doi) ? { kind: 'doi', id: doi } : null;
+        }
+        if (host === 'arxiv.org' || host === 'export.arxiv.org') {
+            // New-style (2101.00001) and old-style (hep-th/9901001) IDs; the version suffix is dropped
+            const arxiv = path.match(/^\/(?:abs|pdf)\/((?:\d{4}\.\d{4,5})|(?:[a-z-]+(?:\.[A-Z]{2})?\/\d{7}))(?:v\d+)?(?:\.pdf)?\/?$/i);
+            return arxiv ? { kind: 'arxiv', id: arxiv[1] } : null;
+        }
+        if (host === 'pubmed.ncbi.nlm.nih.gov' || host === 'ncbi.nlm.nih.gov') {
+            const pubmed = path.match(/^\/(?:pubmed\/)?(\d+)\/?$/);
+            return pubmed ? { kind: 'pubmed', id: pubmed[1] } : null;
+        }
+        return null;
+    }
+
+    static async resolve(url: string, settings: UrlNameExtractorSettings, signal?: AbortSignal): Promise<TitleResult | null> {
+        const match = this.match(url);
+        if (!match) {
+            return null;
+        }
+        switch (match.kind) {
+            case 'doi':
+                return this.format(await this.fetchDoi(match.id, settings, signal), 'doi', settings);
+            case 'arxiv':
+                return this.format(await this.fetchDoi(`10.48550/arXiv.${match.id}`, settings, signal), 'arxiv', settings);
+            case 'pubmed':
+                return this.format(await this.fetchPubmed(match.id, settings, signal), 'pubmed', settings);
+        }
+    }
+
+    static async fetchDoi(doi: string, settings: UrlNameExtractorSettings, signal?: AbortSignal): Promise<CslItem> {
+        const res = await RequestScheduler.request({
+            url: `https://doi.org/${encodeURIComponent(doi).replace(/%2F/g, '/')}`,
+            headers: { 'Accept': 'application/vnd.citationstyles.csl+json' }
+        }, settings, signal);
+        return this.parseCsl(res.text, 'DOI');
+    }
+
+    static async fetchPubmed(id: string, settings: UrlNameExtractorSettings, signal?: AbortSignal): Promise<CslItem> {
+        const res = await RequestScheduler.request({
+            url: `https://api.ncbi.nlm.nih.gov/lit/ctxp/v1/pubmed/?format=csl&id=${encodeURIComponent(id)}`
+        }, settings, signal);
+        return this.parseCsl(res.text, 'PubMed');
+    }
+
+    private static parseCsl(text: string, service: string): CslItem {
+        let item: CslItem;
+        try {
+            item = JSON.parse(text) as CslItem;
+        } catch {
+            throw new Error(`${service}: Invalid CSL-JSON response`);
+        }
+        if (!this.first(item.title)) {
+            throw new Error(`${service}: No title in citation metadata`);
+        }
+        return item;
+    }
+
+    // CSL allows some fields to be arrays
+    private static first(value: string | string[] | undefined): string {
+        return (Array.isArray(value) ? value[0] : value)?.trim() ?? '';
+    }
+
+    // "Smith", "Smith & Jones" or "Smith et al."
+    static formatAuthors(authors: CslItem['author']): string {
+        const names = (authors ?? [])
+            .map(a => a.family ?? a.literal ?? a.given ?? '')
+            .filter(name => name.trim());
+        if (names.length === 0) {
+            return '';
+        }
+        if (names.length === 1) {
+            return names[0];
         }
+        if (names.length === 2) {
+            return `${names[0]} & ${names[1]}`;
+        }
+        return `${names[0]} et al.`;
+    }
 
-        new Setting(containerEl)
-            .setName('Delay between bulk requests')
-            .setDesc('Milliseconds to wait between requests when processing multiple URLs. Helps avoid rate limiting. (Default: 1000ms = 1 second)')
-            .addSlider(slider => slider
-                .setLimits(0, 5000, 100)
-                .setValue(this.plugin.settings.requestDelay)
-                .setDynamicTooltip()
-                .onChange(async (value) => {
-                    this.plugin.settings.requestDelay = value;
-                    await this.plugin.saveSettings();
-                }));
+    static format(item: CslItem, source: 'doi' | 'arxiv' | 'pubmed', settings: UrlNameExtractorSettings): TitleResult {
+        const title = this.first(item.title).replace(/<[^>]*>/g, '');
+        const authors = this.formatAuthors(item.author);
+        const year = String(item.issued?.['date-parts']?.[0]?.[0] ?? '');
+        const journal = this.first(item['container-title']) || item.publisher || '';
+        const values: Record<string, string> = { title, authors, year, journal, doi: item.DOI ?? '' };
 
-        // Note: Obsidian's requestUrl() automatically handles HTTP redirects
-        // No manual redirect configuration needed
+        let text = settings.citationTemplate.replace(/\{(\w+)\}/g, (placeholder: string, name: string) =>
+            Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder);
+        // Tidy up separators and parentheses left by missing authors or year
+        text = text.replace(/\(\s*\)/g, '').replace(/^[\s—–\-:,|]+/, '').replace(/\s{2,}/g, ' ').trim();
 
+        return {
+            title: text || title,
+            source,
+            author: authors || undefined,
+            published: year || undefined,
+            siteName: journal || undefined,
+            doi: item.DOI
+        };
     }
+
 }
 
-class MsgModal extends Modal {
+// Counts Microlink calls per UTC day so that, once the budget is used up,
+// Microlink is skipped instead of failing for every remaining URL
+class MicrolinkQuota {
 
-    constructor(app: App) {
-        super(app);
+    static readonly freeDailyLimit = 50;
+
+    // Saves the settings, which hold the usage; set by the plugin
+    static persist: (() => void) | null = null;
+
+    // Calls per day, 0 for no limit. Paid plans (with an API key) have no limit unless one is set.
+    static limit(settings: UrlNameExtractorSettings): number {
+        return settings.microlinkDailyLimit ?? (settings.microlinkApiKey.trim() ? 0 : this.freeDailyLimit);
     }
 
-    msg: string;
+    static enabled(settings: UrlNameExtractorSettings): boolean {
+        return settings.fallbackProviders.some(p => p.type === 'microlink' && p.enabled);
+    }
 
-    showMsg(theMsg: string) {
-        this.msg = theMsg;
-        this.open();
+    static today(): string {
+        return new Date().toISOString().substring(0, 10);
     }
 
-    onOpen() {
-        const { contentEl } = this;
-        contentEl.setText(this.msg);
+    // Today's usage; a new day starts from zero
+    static usage(settings: UrlNameExtractorSettings): MicrolinkUsage {
+        if (settings.microlinkUsage.day !== this.today()) {
+            settings.microlinkUsage = { day: this.today(), count: 0, exhausted: false };
+        }
+        return settings.microlinkUsage;
     }
 
-    onClose() {
-        const { contentEl } = this;
-        contentEl.empty();
+    // Calls left today, or Infinity without a limit
+    static remaining(settings: UrlNameExtractorSettings): number {
+        const usage = this.usage(settings);
+        if (usage.exhausted) {
+            return 0;
+        }
+        const limit = this.limit(settings);
+        return limit > 0 ? Math.max(0, limit - usage.count) : Infinity;
+    }
+
+    // Explicit requests may use the reserve; automatic fallbacks may not
+    static available(settings: UrlNameExtractorSettings, useReserve: boolean): boolean {
+        const remaining = this.remaining(settings);
+        return remaining > (useReserve ? 0 : settings.microlinkReserve);
+    }
+
+    static record(settings: UrlNameExtractorSettings) {
+        this.usage(settings).count++;
+        this.persist?.();
+    }
+
+    static exhaust(settings: UrlNameExtractorSettings) {
+        this.usage(settings).exhausted = true;
+        this.persist?.();
+    }
+
+    static reset(settings: UrlNameExtractorSettings) {
+        settings.microlinkUsage = { day: this.today(), count: 0, exhausted: false };
+    }
+
+    static describe(settings: UrlNameExtractorSettings): string {
+        const usage = this.usage(settings);
+        if (usage.exhausted) {
+            return `Used today: ${usage.count} calls; Microlink reported the quota as used up.`;
+        }
+        if (this.limit(settings) <= 0) {
+            return `Used today: ${usage.count} calls (no limit).`;
+        }
+        return `Used today: ${usage.count} of ${this.limit(settings)} calls (${this.remaining(settings)} left).`;
+    }
+
+    // A warning if fetching these URLs may need more Microlink calls than
+    // fallbacks can still make today, assuming every uncached URL is blocked
+    static projectionWarning(urls: string[], settings: UrlNameExtractorSettings): string | undefined {
+        if (!this.enabled(settings)) {
+            return undefined;
+        }
+        const uncached = Array.from(new Set(urls)).filter(url => !settings.useTitleCache || !UrlTitleFetcher.cache?.get(url, settings.cacheTtlDays)).length;
+        const usable = Math.max(0, this.remaining(settings) - settings.microlinkReserve);
+        if (uncached <= usable) {
+            return undefined;
+        }
+        return `Microlink can make ${usable} more fallback calls today, fewer than the ${uncached} uncached URLs in this run. ` +
+            'Bot-protected URLs beyond that skip Microlink.';
     }
 
 }
 
-class UrlTagger {
+// What happened while fetching one URL's title
+class FetchTrace {
 
-    static async getTaggedText(selectedText: string, settings: UrlNameExtractorSettings) {
-        const urlsToProcess: string[] = [];
-        
-        let urlPattern: RegExp;
+    private static nextId = 1;
+
+    readonly id = FetchTrace.nextId++;
+    readonly startedAt = Date.now();
+    durationMs?: number;
+    outcome: TraceOutcome = 'pending';
+    title?: string;
+    source?: TitleSource;
+    extractor?: ExtractorId;
+    error?: string;
+    steps: TraceStep[] = [];
+
+    constructor(readonly url: string) {}
+
+    add(step: TraceStep) {
+        this.steps.push(step);
+        FetchDiagnostics.changed();
+    }
+
+    // Runs an attempt and records its timing and outcome; failures are recorded and rethrown
+    async time<T>(step: string, run: () => Promise<T>, describe?: (value: T) => Partial<TraceStep>): Promise<T> {
+        const started = Date.now();
         try {
-            urlPattern = new RegExp(settings.urlRegex, 'gim');
+            const value = await run();
+            this.add({ step, outcome: 'ok', durationMs: Date.now() - started, ...describe?.(value) });
+            return value;
         } catch (e) {
-            new Notice(`Invalid URL regex pattern in settings: ${e instanceof Error ? e.message : String(e)}`, 5000);
-            return selectedText;
+            this.add({
+                step,
+                outcome: 'failed',
+                durationMs: Date.now() - started,
+                status: e instanceof HttpStatusError ? e.status : undefined,
+                detail: e instanceof Error ? e.message : String(e)
+            });
+            throw e;
         }
+    }
 
-        // Find all URLs and check if they're already in markdown links
-        let match;
-        while ((match = urlPattern.exec(selectedText)) !== null) {
-            const url = match[0];
-            const matchIndex = match.index;
-            
-            // Check if URL is already part of a markdown link [text](url)
-            // Look for "](" before the URL
-            const beforeUrl = selectedText.substring(Math.max(0, matchIndex - 2), matchIndex);
-            const isInMarkdownLink = beforeUrl === '](';
-            
-            if (!isInMarkdownLink) {
-                urlsToProcess.push(url);
-            }
-        }
+    succeed(result: TitleResult) {
+        this.end('success');
+        this.title = result.title;
+        this.source = result.source;
+        this.extractor = result.extractor;
+    }
 
-        if (urlsToProcess.length === 0) {
-            new Notice('No raw URLs found to process.');
-            return selectedText;
-        }
+    fail(error: unknown) {
+        this.end(error instanceof RunCancelledError ? 'cancelled' : 'failed');
+        this.error = error instanceof Error ? error.message : String(error);
+    }
 
-        // Process URLs sequentially with delay to avoid rate limiting
-        const namedTags: string[] = [];
-        let successCount = 0;
-        let failureCount = 0;
-        
-        for (let i = 0; i < urlsToProcess.length; i++) {
-            const url = urlsToProcess[i];
-            
-            // Add delay between requests (except for first one)
-            if (i > 0) {
-                await new Promise(resolve => window.setTimeout(resolve, settings.requestDelay ?? 1000));
-            }
-            
-            try {
-                const namedTag = await UrlTitleFetcher.getNamedUrlTag(url, settings);
-                namedTags.push(namedTag);
-                successCount++;
-            } catch (error) {
-                // On error, keep the original URL
-                const errorMsg = error instanceof Error ? error.message : String(error);
-                new Notice(`Failed to fetch title for ${url}: ${errorMsg}`, 5000);
-                namedTags.push(url);
-                failureCount++;
-            }
-        }
+    private end(outcome: TraceOutcome) {
+        this.outcome = outcome;
+        this.durationMs = Date.now() - this.startedAt;
+        FetchDiagnostics.changed();
+    }
 
-        new Notice(`Processed ${namedTags.length} URLs: ${successCount} successful, ${failureCount} failed.`);
+}
 
-        // Replace URLs with their named versions
-        // Important: Can't use simple replace() because it only replaces first occurrence
-        // and URLs might share prefixes (e.g., example.com/ and example.com/page)
-        // Instead, track original match positions and replace in reverse order
-        let result = selectedText;
-        
-        // Build array of replacements with their original positions
-        const replacements: Array<{start: number, end: number, replacement: string}> = [];
-        let replaceMatch;
-        const replacePattern = new RegExp(settings.urlRegex, 'gim');
-        let processedIndex = 0;
-        
-        while ((replaceMatch = replacePattern.exec(selectedText)) !== null) {
-            const url = replaceMatch[0];
-            const matchIndex = replaceMatch.index;
-            
-            // Check if URL is already in markdown link
-            const beforeUrl = selectedText.substring(Math.max(0, matchIndex - 2), matchIndex);
-            const isInMarkdownLink = beforeUrl === '](';
-            
-            if (!isInMarkdownLink && processedIndex < namedTags.length) {
-                replacements.push({
-                    start: matchIndex,
-                    end: matchIndex + url.length,
-                    replacement: namedTags[processedIndex]
-                });
-                processedIndex++;
-            }
-        }
-        
-        // Apply replacements in reverse order (end to start) to preserve positions
-        replacements.reverse().forEach(({ start, end, replacement }) => {
-            result = result.substring(0, start) + replacement + result.substring(end);
-        });
+// Traces of the most recent lookups, newest first
+class FetchDiagnostics {
 
-        return result;
+    static readonly maxTraces = 200;
+    static traces: FetchTrace[] = [];
+    private static listeners: Array<() => void> = [];
+
+    static start(url: string): FetchTrace {
+        const trace = new FetchTrace(url);
+        this.traces.unshift(trace);
+        this.traces.splice(this.maxTraces);
+        this.changed();
+        return trace;
+    }
+
+    static clear() {
+        this.traces = [];
+        this.changed();
+    }
+
+    // Returns a function that removes the listener
+    static subscribe(listener: () => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    static changed() {
+        this.listeners.forEach(listener => listener());
     }
 
 }
 
 class UrlTitleFetcher {
 
+    // Set by the plugin on load; null when no cache is available
+    static cache: TitleCache | null = null;
+
     static htmlTitlePattern = /<title[^>]*>([^<]*)<\/title>/im;
-    // Multiple OG title patterns to handle attribute order variations
-    static ogTitlePatterns = [
-        /<meta\s+property=["']og:title["']\s+content=["']([^"']*)["']/im,
-        /<meta\s+content=["']([^"']*)["']\s+property=["']og:title["']/im,
-        /<meta[^>]+property=["']og:title["'][^>]+content=["']([^"']*)["']/im,
-        /<meta[^>]+content=["']([^"']*)["'][^>]+property=["']og:title["']/im
-    ];
 
     static isValidUrl(s: string): boolean {
         try {
@@ -461,165 +5380,378 @@ class UrlTitleFetcher {
         return decoded;
     }
 
-    static parseTitle(url: string, body: string, settings: UrlNameExtractorSettings): string {
-        // Check site-specific patterns first
-        for (const pattern of settings.sitePatterns) {
-            if (url.includes(pattern.urlMatch)) {
-                try {
-                    const regex = new RegExp(pattern.titleRegex, 'im');
-                    const match = body.match(regex);
-                    if (match && typeof match[1] === 'string' && match[1].trim()) {
-                        return this.decodeHtmlEntities(match[1].trim());
-                    }
-                } catch (e) {
-                    if (e instanceof Error) {
-                        new Notice(`Invalid regex for ${pattern.urlMatch}: ${e.message}`, 5000);
-                    } else {
-                        new Notice(`Invalid regex for ${pattern.urlMatch}: ${String(e)}`, 5000);
-                    }
+    // Runs the metadata extractors in the configured order. The first extractor
+    // that finds a title provides it; other fields come from the first
+    // extractor that has them.
+    static parseTitleResult(url: string, body: string, settings: UrlNameExtractorSettings): TitleResult {
+        const page = new PageMetadataParser(url, body, settings);
+        const result: Partial<TitleResult> = {};
+
+        for (const { id, enabled } of settings.extractors) {
+            const extractor = METADATA_EXTRACTORS.find(e => e.id === id);
+            if (!enabled || !extractor) {
+                continue;
+            }
+            const found = extractor.extract(page);
+            for (const field of ['siteName', 'author', 'published', 'description', 'doi'] as const) {
+                const value = found[field]?.trim();
+                if (!result[field] && value) {
+                    result[field] = this.decodeHtmlEntities(value);
+                }
+            }
+            // Image, icon and canonical URLs may be relative to the page
+            for (const field of ['image', 'favicon', 'canonicalUrl'] as const) {
+                const value = found[field]?.trim();
+                if (!result[field] && value) {
+                    result[field] = this.resolveUrl(this.decodeHtmlEntities(value), url);
                 }
             }
+            if (!result.title && found.title?.trim()) {
+                result.title = this.decodeHtmlEntities(found.title.trim());
+                result.source = id;
+                result.extractor = id;
+            }
         }
 
-        // Try standard HTML title tag
-        let title = '';
-        const titleMatch = body.match(this.htmlTitlePattern);
-        if (titleMatch && typeof titleMatch[1] === 'string') {
-            title = titleMatch[1].trim();
+        // Validate that we got a non-empty title
+        if (!result.title || !result.source) {
+            throw new TitleFetchError('no-title', 'Unable to parse the title tag (empty or not found)');
         }
 
-        // If title is empty, try Open Graph title meta tags (multiple patterns for attribute order variations)
-        if (!title) {
-            for (const pattern of this.ogTitlePatterns) {
-                const ogMatch = body.match(pattern);
-                if (ogMatch && typeof ogMatch[1] === 'string' && ogMatch[1].trim()) {
-                    title = ogMatch[1].trim();
-                    break;
-                }
-            }
+        return result as TitleResult;
+    }
+
+    static resolveUrl(href: string, base: string): string | undefined {
+        try {
+            const resolved = new URL(href, base);
+            return resolved.protocol === 'https:' || resolved.protocol === 'http:' ? resolved.toString() : undefined;
+        } catch {
+            return undefined;
         }
+    }
 
-        // Validate that we got a non-empty title
-        if (!title) {
-            throw new Error('Unable to parse the title tag (empty or not found)');
+    // Reference-style templates yield a link without its definition here;
+    // use UrlTagger.tagText to get the definitions as well
+    static formatLink(result: TitleResult, url: string, settings: UrlNameExtractorSettings): string {
+        return new LinkFormatter(settings).format(url, result);
+    }
+
+    // Fetches the title and where it came from, cleaned up by the title rules.
+    // Failures resolve to a failed outcome for the caller to report, so it can keep the raw URL.
+    static async getNamedUrl(url: string, settings: UrlNameExtractorSettings, signal?: AbortSignal): Promise<UrlOutcome> {
+        try {
+            return { url, status: 'success', result: await this.lookup(url, settings, signal) };
+        } catch (error) {
+            if (error instanceof RunCancelledError) {
+                throw error;
+            }
+            return { url, status: 'failed', result: null, reason: this.failureReason(error), error: error instanceof Error ? error.message : String(error) };
         }
+    }
 
-        // Decode HTML entities
-        return this.decodeHtmlEntities(title);
+    // Like getNamedUrl, but failures are thrown for the caller to report
+    // Every lookup is traced for the diagnostics view.
+    static async lookup(url: string, settings: UrlNameExtractorSettings, signal?: AbortSignal, provider?: FallbackProviderSetting): Promise<TitleResult> {
+        const trace = FetchDiagnostics.start(url);
+        try {
+            const target = await UrlCanonicalizer.expand(url, settings, signal);
+            if (target !== url) {
+                trace.add({ step: 'Expand short link', outcome: 'info', detail: target });
+            }
+            const named = await this.getRawNamedUrl(target, settings, trace, signal, provider);
+            // Cache the short link too, so the next lookup skips expanding it
+            const targetEntry = target !== url && settings.useTitleCache ? this.cache?.get(target, settings.cacheTtlDays) : undefined;
+            if (targetEntry) {
+                this.cache?.set(url, { ...targetEntry, expandedUrl: target });
+            }
+            const result = TitleCleaner.clean(url, named, settings);
+            if (result.title !== named.title) {
+                trace.add({ step: 'Title cleanup', outcome: 'info', detail: `"${named.title}" → "${result.title}"` });
+            }
+            const written = UrlCanonicalizer.canonicalize(url, target, named, settings);
+            if (written !== url) {
+                trace.add({ step: 'URL cleanup', outcome: 'info', detail: written });
+            }
+            const final = written !== url ? { ...result, url: written } : result;
+            trace.succeed(final);
+            return final;
+        } catch (e) {
+            trace.fail(e);
+            throw e;
+        }
     }
 
-    static async getNamedUrlTag(url: string, settings: UrlNameExtractorSettings): Promise<string> {
+    // The cache holds titles as fetched, so changing the cleanup rules applies to cached titles too
+    // A given provider is asked directly, without looking at the cache or the page
+    private static async getRawNamedUrl(
+        url: string,
+        settings: UrlNameExtractorSettings,
+        trace: FetchTrace,
+        signal?: AbortSignal,
+        forcedProvider?: FallbackProviderSetting
+    ): Promise<TitleResult> {
         const reqUrl = url.startsWith('http') ? url : `http://${url}`;
 
         if (!this.isValidUrl(reqUrl)) {
-            new Notice(`${url} is not a valid URL.`);
-            return url;
+            throw new TitleFetchError('invalid-url', `${url} is not a valid URL.`);
         }
 
-        try {
-            // STEP 1: Try simple fetch first (works for most sites including Amazon)
-            let result: { body: string; status: number } | null = null;
-            
+        const cached = settings.useTitleCache && !forcedProvider ? this.cache?.get(reqUrl, settings.cacheTtlDays) : undefined;
+        if (cached) {
+            trace.add({ step: 'Title cache', outcome: 'ok', status: cached.status, detail: `Fetched ${moment(cached.fetchedAt).fromNow()}` });
+            return { ...cached, cached: true };
+        }
+
+        // DOI, arXiv and PubMed links are resolved from citation metadata instead of the (often bot-blocked) page
+        if (settings.useCitationResolver && !forcedProvider && CitationResolver.match(reqUrl)) {
             try {
-                result = await this.fetchWithHeaders(reqUrl, false);
-            } catch (simpleError) {
-                // If simple fetch fails (network error), log it and try with complex browser headers
-                console.error('Simple fetchWithHeaders call failed:', simpleError);
-                try {
-                    result = await this.fetchWithHeaders(reqUrl, true);
-                } catch (complexError) {
-                    // Both failed - aggregate error information from both attempts
-                    const aggregatedMessage = 
-                        'Both simple and complex fetchWithHeaders calls failed. ' +
-                        `Simple fetch error: ${simpleError instanceof Error ? simpleError.message : String(simpleError)}. ` +
-                        `Complex fetch error: ${complexError instanceof Error ? complexError.message : String(complexError)}.`;
-                    const aggregatedError = new AggregatedFetchError(
-                        aggregatedMessage,
-                        simpleError,
-                        complexError
-                    );
-                    throw aggregatedError;
+                const citation = await trace.time('Citation lookup', () => CitationResolver.resolve(reqUrl, settings, signal),
+                    found => found ? {} : { outcome: 'info', detail: 'No citation found' });
+                if (citation) {
+                    return this.remember(reqUrl, citation, 200, settings);
+                }
+            } catch (e) {
+                if (e instanceof RunCancelledError) {
+                    throw e;
                 }
+                console.error('Citation lookup failed, fetching the page instead:', e);
             }
-            
-            if (!result) {
-                throw new Error('Failed to fetch URL');
+        }
+
+        const profile = RequestProfiles.findForUrl(reqUrl, settings);
+        const strategy = profile?.strategy ?? 'auto';
+        if (profile) {
+            trace.add({ step: 'Request profile', outcome: 'info', detail: `${profile.domain}: ${REQUEST_STRATEGY_LABELS[strategy]}` });
+        }
+
+        // The domain's profile may skip the page and go straight to a fallback
+        const provider = forcedProvider ?? (profile ? RequestProfiles.provider(profile, settings) : undefined);
+        if (provider?.type === 'microlink' && !MicrolinkQuota.available(settings, true)) {
+            throw new TitleFetchError('rate-limited', `Microlink daily budget used up. ${MicrolinkQuota.describe(settings)}`);
+        }
+        if (provider) {
+            const found = await trace.time(provider.name || FALLBACK_PROVIDERS[provider.type].name,
+                () => FALLBACK_PROVIDERS[provider.type].fetch(reqUrl, provider, settings, signal));
+            return this.remember(reqUrl, { ...found, source: provider.type }, 200, settings);
+        }
+        if (strategy === 'custom') {
+            throw new Error(`The request profile for ${profile?.domain ?? reqUrl} uses a custom endpoint, but none is configured.`);
+        }
+
+        // STEP 1: Try simple fetch first (works for most sites including Amazon)
+        let result: FetchedPage | null = null;
+        
+        try {
+            // The profile may require browser headers from the start
+            const complex = strategy === 'complex';
+            result = await trace.time(complex ? 'Fetch with browser headers' : 'Simple fetch',
+                () => this.fetchWithHeaders(reqUrl, settings, complex, signal), page => this.describePage(page));
+        } catch (simpleError) {
+            if (simpleError instanceof RunCancelledError) {
+                throw simpleError;
             }
+            if (strategy !== 'auto') {
+                throw simpleError;
+            }
+            // If simple fetch fails (network error), log it and try with complex browser headers
+            console.error('Simple fetchWithHeaders call failed:', simpleError);
+            try {
+                result = await trace.time('Fetch with browser headers',
+                    () => this.fetchWithHeaders(reqUrl, settings, true, signal), page => this.describePage(page));
+            } catch (complexError) {
+                if (complexError instanceof RunCancelledError) {
+                    throw complexError;
+                }
+                // Both failed - aggregate error information from both attempts
+                const aggregatedMessage = 
+                    'Both simple and complex fetchWithHeaders calls failed. ' +
+                    `Simple fetch error: ${simpleError instanceof Error ? simpleError.message : String(simpleError)}. ` +
+                    `Complex fetch error: ${complexError instanceof Error ? complexError.message : String(complexError)}.`;
+                const aggregatedError = new AggregatedFetchError(
+                    aggregatedMessage,
+                    simpleError,
+                    complexError
+                );
+                throw aggregatedError;
+            }
+        }
+        
+        if (!result) {
+            throw new TitleFetchError('network', 'Failed to fetch URL');
+        }
+        
+        const { body, status } = result;
+
+        // PDFs, images and other files have no <title>; name them by type instead
+        if (status < 300 && FileNamer.handles(result.contentType)) {
+            return this.remember(reqUrl, FileNamer.describe(reqUrl, result), status, settings);
+        }
+        
+        // STEP 2: Detect bot protection
+        // Status codes 202/403/503 indicate protection even with empty body
+        // Content patterns catch Cloudflare/AWS WAF when status is 200
+        const isBotProtectedStatus = status === 202 || status === 403 || status === 503;
+        
+        // Only check content if status doesn't already indicate bot protection
+        const isBotProtectedContent = !isBotProtectedStatus && (() => {
+            const bodyLower = body.toLowerCase();
+            return bodyLower.includes('just a moment') || 
+                bodyLower.includes('checking your browser') ||
+                body.includes('challenge-platform') ||
+                body.includes('awsWafCookieDomainList') ||
+                (bodyLower.includes('cloudflare') && bodyLower.includes('ray id'));
+        })();
+        
+        const isBlocked = isBotProtectedStatus || isBotProtectedContent;
+        trace.add({
+            step: 'Bot protection check',
+            outcome: isBlocked ? 'failed' : 'ok',
+            detail: isBotProtectedStatus ? `Blocked: status ${status}` : isBotProtectedContent ? 'Blocked: challenge page' : 'Not detected'
+        });
+        
+        if (isBlocked) {
+            // A forced strategy means only that strategy is tried
+            const fallbacks = strategy === 'auto' ? settings.fallbackProviders.filter(p => p.enabled) : [];
             
-            const { body, status } = result;
-            
-            // STEP 2: Detect bot protection
-            // Status codes 202/403/503 indicate protection even with empty body
-            // Content patterns catch Cloudflare/AWS WAF when status is 200
-            const isBotProtectedStatus = status === 202 || status === 403 || status === 503;
-            
-            // Only check content if status doesn't already indicate bot protection
-            const isBotProtectedContent = !isBotProtectedStatus && (() => {
-                const bodyLower = body.toLowerCase();
-                return bodyLower.includes('just a moment') || 
-                    bodyLower.includes('checking your browser') ||
-                    body.includes('challenge-platform') ||
-                    body.includes('awsWafCookieDomainList') ||
-                    (bodyLower.includes('cloudflare') && bodyLower.includes('ray id'));
-            })();
-            
-            const isBlocked = isBotProtectedStatus || isBotProtectedContent;
-            
-            if (isBlocked) {
-                // Build fallback chain
-                const fallbacks: Array<{name: string, fn: () => Promise<string>}> = [];
-                
-                if (settings.fallbackPriority === 'microlink-first') {
-                    if (settings.useMicrolinkFallback) {
-                        fallbacks.push({ name: 'Microlink', fn: () => this.tryMicrolinkFallback(reqUrl, settings) });
-                    }
-                    if (settings.useArchiveFallback) {
-                        fallbacks.push({ name: 'Archive.org', fn: () => this.tryArchiveFallbackTitle(reqUrl, settings) });
-                    }
-                } else {
-                    if (settings.useArchiveFallback) {
-                        fallbacks.push({ name: 'Archive.org', fn: () => this.tryArchiveFallbackTitle(reqUrl, settings) });
-                    }
-                    if (settings.useMicrolinkFallback) {
-                        fallbacks.push({ name: 'Microlink', fn: () => this.tryMicrolinkFallback(reqUrl, settings) });
-                    }
+            let lastError = '';
+            for (const fallback of fallbacks) {
+                // Route past Microlink once its budget (minus the reserve) is used up
+                if (fallback.type === 'microlink' && !MicrolinkQuota.available(settings, false)) {
+                    trace.add({ step: FALLBACK_PROVIDERS.microlink.name, outcome: 'info', detail: `Skipped: daily budget used up. ${MicrolinkQuota.describe(settings)}` });
+                    lastError = 'Microlink daily budget used up';
+                    continue;
                 }
-                
-                let lastError = '';
-                for (const fallback of fallbacks) {
-                    try {
-                        const title = await fallback.fn();
-                        new Notice(`📦 Title fetched via ${fallback.name}`, 3000);
-                        return `[${title}](${url})`;
-                    } catch (e) {
-                        const errorMessage = e instanceof Error ? e.message : String(e);
-                        if (e instanceof MicrolinkRateLimitError) {
-                            new Notice('⚠️ Microlink daily limit reached (50/day). Trying next fallback...', 5000);
-                        }
-                        lastError = errorMessage;
+                try {
+                    const found = await trace.time(fallback.name || FALLBACK_PROVIDERS[fallback.type].name,
+                        () => FALLBACK_PROVIDERS[fallback.type].fetch(reqUrl, fallback, settings, signal));
+                    return this.remember(reqUrl, { ...found, source: fallback.type }, status, settings);
+                } catch (e) {
+                    if (e instanceof RunCancelledError) {
+                        throw e;
                     }
+                    lastError = e instanceof Error ? e.message : String(e);
                 }
-                
-                if (fallbacks.length === 0) {
-                    throw new Error('⛔ Bot protection detected. Enable a fallback method in settings.');
-                }
-                throw new Error(`⛔ Bot protection detected. All fallbacks failed. Last error: ${lastError}`);
             }
             
-            // STEP 3: Parse title from successful response
-            const title = this.parseTitle(reqUrl, body, settings);
-            return `[${title}](${url})`;
-        } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error);
-            new Notice(`Error: ${errorMsg}`, 8000);
-            return url;
+            if (strategy !== 'auto') {
+                throw new TitleFetchError('bot-protection', `⛔ Bot protection detected. The request profile for ${profile?.domain ?? reqUrl} does not use fallbacks.`);
+            }
+            if (fallbacks.length === 0) {
+                throw new TitleFetchError('bot-protection', '⛔ Bot protection detected. Enable a fallback method in settings.');
+            }
+            throw new TitleFetchError('bot-protection', `⛔ Bot protection detected. All fallbacks failed. Last error: ${lastError}`);
+        }
+        
+        // STEP 3: Parse title from successful response
+        let parsed: TitleResult;
+        try {
+            parsed = this.parseTitleResult(reqUrl, body, settings);
+        } catch (e) {
+            trace.add({ step: 'Extract title', outcome: 'failed', detail: e instanceof Error ? e.message : String(e) });
+            throw e;
+        }
+        trace.add({ step: 'Extract title', outcome: 'ok', detail: `${TITLE_SOURCE_LABELS[parsed.source]}: "${parsed.title}"` });
+
+        // Pages that declare a DOI (citation_doi) get citation-style text as well
+        if (settings.useCitationResolver && parsed.doi) {
+            try {
+                const doi = parsed.doi;
+                const citation = CitationResolver.format(await trace.time(`DOI lookup (${doi})`, () => CitationResolver.fetchDoi(doi, settings, signal)), 'doi', settings);
+                return this.remember(reqUrl, { ...parsed, ...citation }, status, settings);
+            } catch (e) {
+                if (e instanceof RunCancelledError) {
+                    throw e;
+                }
+                console.error(`Citation lookup for ${parsed.doi} failed:`, e);
+            }
+        }
+        return this.remember(reqUrl, parsed, status, settings);
+    }
+
+    static failureReason(error: unknown): UrlFailureReason {
+        if (error instanceof TitleFetchError) {
+            return error.reason;
+        }
+        if (error instanceof MicrolinkRateLimitError) {
+            return 'rate-limited';
+        }
+        if (error instanceof HttpStatusError) {
+            return error.status === 429 ? 'rate-limited' : 'http-error';
+        }
+        // Both page requests failed; a 404 or timeout says more than "network"
+        if (error instanceof AggregatedFetchError) {
+            const reasons = [error.complexError, error.simpleError].map(e => this.failureReason(e));
+            return reasons.find(reason => reason !== 'other') ?? 'network';
+        }
+        return 'other';
+    }
+
+    private static describePage(page: FetchedPage): Partial<TraceStep> {
+        return { status: page.status, detail: `${page.contentType || 'No content type'}, ${page.body.length} characters` };
+    }
+
+    private static remember(url: string, result: TitleResult, status: number, settings: UrlNameExtractorSettings): TitleResult {
+        if (settings.useTitleCache) {
+            this.cache?.set(url, { ...result, fetchedAt: Date.now(), status });
+        }
+        return result;
+    }
+
+    // Case-insensitive header lookup
+    static header(headers: Record<string, string> | undefined, name: string): string | undefined {
+        const key = Object.keys(headers ?? {}).find(k => k.toLowerCase() === name);
+        return key && headers ? headers[key] : undefined;
+    }
+
+    // res.text always decodes as UTF-8, which garbles Shift_JIS, windows-1251,
+    // GBK or ISO-8859-1 pages. Decode the raw bytes with the charset from the
+    // BOM, the Content-Type header or a <meta> tag, in that order of precedence.
+    static decodeBody(res: RequestUrlResponse): string {
+        if (!res.arrayBuffer || res.arrayBuffer.byteLength === 0) {
+            return res.text ?? '';
+        }
+        const bytes = new Uint8Array(res.arrayBuffer);
+        const charset = this.detectCharset(bytes, res.headers);
+        try {
+            return new TextDecoder(charset).decode(bytes);
+        } catch {
+            // Unknown or unsupported label
+            return new TextDecoder('utf-8').decode(bytes);
+        }
+    }
+
+    static detectCharset(bytes: Uint8Array, headers: Record<string, string>): string {
+        if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+            return 'utf-8';
+        }
+        if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+            return 'utf-16le';
         }
+        if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+            return 'utf-16be';
+        }
+
+        const headerCharset = this.header(headers, 'content-type')?.match(/charset\s*=\s*["']?([\w.:-]+)/i);
+        if (headerCharset) {
+            return headerCharset[1].toLowerCase();
+        }
+
+        // Charset declarations are ASCII, so the head of the page can be read byte by byte
+        const head = String.fromCharCode.apply(null, Array.from(bytes.subarray(0, 4096)));
+        const metaCharset = head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i);
+        if (metaCharset) {
+            return metaCharset[1].toLowerCase();
+        }
+
+        return 'utf-8';
     }
 
     private static async fetchWithHeaders(
         url: string,
-        useComplexHeaders: boolean = false
-    ): Promise<{ body: string; status: number }> {
+        settings: UrlNameExtractorSettings,
+        useComplexHeaders: boolean = false,
+        signal?: AbortSignal
+    ): Promise<FetchedPage> {
         // Progressive complexity: Start with simple request (like url-namer)
         // Only add complex headers if needed for bot protection
         const headers = useComplexHeaders ? {
@@ -633,17 +5765,22 @@ class UrlTitleFetcher {
         } : undefined;
 
         try {
-            const res = await requestUrl({ 
+            const res = await RequestScheduler.request({ 
                 url: url,
                 headers: headers
-            });
+            }, settings, signal);
 
+            const contentType = this.header(res.headers, 'content-type') ?? '';
             return {
-                body: res.text,
-                status: res.status
+                // Skip decoding binary files, which may be large
+                body: FileNamer.handles(contentType) ? '' : this.decodeBody(res),
+                status: res.status,
+                contentType,
+                headers: res.headers ?? {},
+                bytes: res.arrayBuffer ?? null
             };
         } catch (err: unknown) {
-            // requestUrl throws on non-2xx status codes
+            // RequestScheduler throws on non-2xx status codes, like requestUrl
             // Check if we got a 403/503/202 error response (likely bot protection)
             // Note: Obsidian's requestUrl doesn't provide response body for error statuses
             // Return status code for bot detection - content check not needed
@@ -655,7 +5792,10 @@ class UrlTitleFetcher {
                 // Return status with empty body - bot detection will trigger on status alone
                 return {
                     body: '',
-                    status: status
+                    status: status,
+                    contentType: '',
+                    headers: {},
+                    bytes: null
                 };
             }
             // Other error statuses or real network errors, re-throw
@@ -663,20 +5803,24 @@ class UrlTitleFetcher {
         }
     }
 
-    static async tryArchiveFallback(url: string, settings: UrlNameExtractorSettings): Promise<string> {
-        try {
-            const title = await this.tryArchiveFallbackTitle(url, settings);
-            return `[${title}](${url})`;
-        } catch (archiveError) {
-            const msg = archiveError instanceof Error ? archiveError.message : String(archiveError);
-            throw new Error(`⛔ Bot protection detected. Archive.org fallback failed: ${msg}`);
+    static async tryArchiveFallbackResult(url: string, settings: UrlNameExtractorSettings, signal?: AbortSignal): Promise<TitleResult> {
+        const archivedUrl = await this.findArchivedUrl(url, settings, signal);
+
+        // Fetch the archived page
+        const archiveRes = await RequestScheduler.request({ url: archivedUrl }, settings, signal);
+        if (archiveRes.status !== 200) {
+            throw new Error('Could not fetch archived page');
         }
+        
+        // Links in archived pages point into the archive
+        return { ...this.parseTitleResult(url, this.decodeBody(archiveRes), settings), canonicalUrl: undefined };
     }
 
-    static async tryArchiveFallbackTitle(url: string, settings: UrlNameExtractorSettings): Promise<string> {
+    // URL of the closest Wayback Machine snapshot, from the availability API
+    static async findArchivedUrl(url: string, settings: UrlNameExtractorSettings, signal?: AbortSignal): Promise<string> {
         // Get the latest snapshot from Archive.org
         const archiveApiUrl = `https://archive.org/wayback/available?url=${encodeURIComponent(url)}`;
-        const apiRes = await requestUrl({ url: archiveApiUrl });
+        const apiRes = await RequestScheduler.request({ url: archiveApiUrl }, settings, signal);
         
         if (apiRes.status !== 200) {
             throw new Error('Archive.org API unavailable');
@@ -706,18 +5850,49 @@ class UrlTitleFetcher {
                 archivedUrl = archivedUrl.replace(/^http:\/\//, 'https://');
             }
         }
-        
-        // Fetch the archived page
-        const archiveRes = await requestUrl({ url: archivedUrl });
-        if (archiveRes.status !== 200) {
-            throw new Error('Could not fetch archived page');
+        return archivedUrl;
+    }
+
+    // A self-hosted metadata service: GET the URL template and read the title from the response
+    static async tryCustomEndpoint(url: string, config: FallbackProviderSetting, settings: UrlNameExtractorSettings, signal?: AbortSignal): Promise<Omit<TitleResult, 'source'>> {
+        const template = config.urlTemplate ?? '';
+        if (!template.includes('{url}')) {
+            throw new Error('Custom endpoint: the URL template needs a {url} placeholder');
         }
-        
-        return this.parseTitle(url, archiveRes.text, settings);
+        const headers = config.headers ?? {};
+        const res = await RequestScheduler.request({
+            url: template.split('{url}').join(encodeURIComponent(url)),
+            headers: Object.keys(headers).length > 0 ? headers : undefined,
+            throw: false
+        }, settings, signal);
+        if (res.status >= 400) {
+            throw new Error(`Custom endpoint: status ${res.status}`);
+        }
+
+        let title: unknown = res.text;
+        if (config.titlePath) {
+            try {
+                title = this.jsonPath(JSON.parse(res.text), config.titlePath);
+            } catch {
+                throw new Error('Custom endpoint: Invalid JSON response');
+            }
+        }
+        if (typeof title !== 'string' || !title.trim()) {
+            throw new Error(`Custom endpoint: No title found${config.titlePath ? ` at ${config.titlePath}` : ''}`);
+        }
+        return { title: title.trim() };
+    }
+
+    // Value at a dot path such as "data.items.0.title" (or "data.items[0].title")
+    static jsonPath(value: unknown, path: string): unknown {
+        return path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(key => key).reduce<unknown>((current, key) =>
+            typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined, value);
     }
 
-    static async tryMicrolinkFallback(url: string, settings: UrlNameExtractorSettings): Promise<string> {
+    static async tryMicrolinkFallbackResult(url: string, settings: UrlNameExtractorSettings, signal?: AbortSignal): Promise<Omit<TitleResult, 'source'>> {
         const apiUrl = `https://api.microlink.io?url=${encodeURIComponent(url)}`;
+        // Counted before the request, so concurrent lookups see it
+        MicrolinkQuota.record(settings);
         
         // Build headers, using x-api-key for authentication (more secure than URL parameter)
         const headers: Record<string, string> = {};
@@ -725,13 +5900,16 @@ class UrlTitleFetcher {
             headers['x-api-key'] = settings.microlinkApiKey;
         }
         
-        const res = await requestUrl({ 
+        // Don't throw on error statuses: Microlink explains failures in a JSON body
+        const res = await RequestScheduler.request({ 
             url: apiUrl,
-            headers: Object.keys(headers).length > 0 ? headers : undefined
-        });
+            headers: Object.keys(headers).length > 0 ? headers : undefined,
+            throw: false
+        }, settings, signal);
         
         // Check for rate limit (HTTP 429)
         if (res.status === 429) {
+            MicrolinkQuota.exhaust(settings);
             throw new MicrolinkRateLimitError();
         }
         
@@ -745,6 +5923,7 @@ class UrlTitleFetcher {
         // Check for rate limit in response body
         if (data.status === 'fail') {
             if (data.code === 'ERATE_LIMIT_EXCEEDED') {
+                MicrolinkQuota.exhaust(settings);
                 throw new MicrolinkRateLimitError();
             }
             // Handle EPROXYNEEDED - Microlink free tier can't bypass antibot protection
@@ -819,7 +5998,16 @@ class UrlTitleFetcher {
             };
 
             title = stripMarkdownLinks(title);
-            return title;
+            return {
+                title,
+                siteName: data.data?.publisher ?? undefined,
+                author: data.data?.author ?? undefined,
+                published: data.data?.date ?? undefined,
+                description: data.data?.description ?? undefined,
+                image: data.data?.image?.url,
+                favicon: data.data?.logo?.url,
+                canonicalUrl: data.data?.url ?? undefined
+            };
         }
         
         throw new Error('Microlink: No title found in response');